@@ -0,0 +1,68 @@
+// Generates public/geo/countries.geojson from the Natural Earth 1:50m
+// country borders in the world-atlas package, simplified and with rounded
+// coordinates so the map and region lookup work without network access.
+//
+//   npm run geo:borders
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { feature } from "topojson-client";
+import { presimplify, quantile, simplify } from "topojson-simplify";
+
+const require = createRequire(import.meta.url);
+
+// Share of the points kept, by importance; tiny islands still survive
+const KEEP_QUANTILE = 0.15;
+// ~1 km; well below what the borders are accurate to after simplifying
+const PRECISION = 2;
+
+const OUTPUT = path.resolve(
+  path.dirname(new URL(import.meta.url).pathname),
+  "../public/geo/countries.geojson"
+);
+
+const round = (value) => Number(value.toFixed(PRECISION));
+
+const roundCoordinates = (coords) =>
+  typeof coords[0] === "number"
+    ? coords.map(round)
+    : coords.map(roundCoordinates);
+
+const topology = JSON.parse(
+  await readFile(require.resolve("world-atlas/countries-50m.json"), "utf8")
+);
+const simplified = presimplify(topology);
+const minWeight = quantile(simplified, KEEP_QUANTILE);
+const countries = feature(
+  simplify(simplified, minWeight),
+  simplified.objects.countries
+);
+
+// Simplifying collapses small islands to a single point; drop those rings
+const isRing = (ring) => new Set(ring.map((p) => p.join())).size >= 3;
+
+const polygonsOf = (geometry) =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+const features = countries.features
+  .filter((f) => f.geometry)
+  .map((f) => {
+    const polygons = polygonsOf(f.geometry)
+      .map((polygon) => roundCoordinates(polygon).filter(isRing))
+      .filter((polygon) => polygon.length > 0 && isRing(polygon[0]));
+    return {
+      type: "Feature",
+      id: f.id,
+      properties: { name: f.properties.name },
+      geometry:
+        polygons.length === 1
+          ? { type: "Polygon", coordinates: polygons[0] }
+          : { type: "MultiPolygon", coordinates: polygons },
+    };
+  })
+  .filter((f) => f.geometry.coordinates.length > 0);
+
+await mkdir(path.dirname(OUTPUT), { recursive: true });
+await writeFile(OUTPUT, JSON.stringify({ type: "FeatureCollection", features }));
+console.log(`Wrote ${features.length} countries to ${OUTPUT}`);
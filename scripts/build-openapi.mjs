@@ -0,0 +1,236 @@
+// Generates src/lib/api/openapi.json, the OpenAPI document for the public
+// /api/v1 routes, from the response types in src/lib/api/types.ts. Each
+// field's comment becomes its description.
+//
+//   npm run api:openapi
+
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+
+const ROOT = path.resolve(
+  path.dirname(new URL(import.meta.url).pathname),
+  ".."
+);
+const TYPES_FILE = path.join(ROOT, "src/lib/api/types.ts");
+const OUTPUT = path.join(ROOT, "src/lib/api/openapi.json");
+
+const program = ts.createProgram([TYPES_FILE], {
+  strict: true,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+});
+const checker = program.getTypeChecker();
+const source = program.getSourceFile(TYPES_FILE);
+const text = source.getFullText();
+
+const exported = source.statements.filter(
+  (statement) =>
+    ts.isInterfaceDeclaration(statement) &&
+    statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+);
+const schemaNames = new Set(exported.map((statement) => statement.name.text));
+
+const lineOf = (pos) => source.getLineAndCharacterOfPosition(pos).line;
+
+const commentText = (range) =>
+  text
+    .slice(range.pos, range.end)
+    .replace(/^\/\/\s?/, "")
+    .trim();
+
+// Comment lines just above a field, or after it on the same line. Comments
+// on the previous field's line belong to that field.
+const describe = (node) => {
+  const start = node.getFullStart();
+  const above = (ts.getLeadingCommentRanges(text, start) ?? []).filter(
+    (range) => lineOf(range.pos) > lineOf(start)
+  );
+  const after = ts.getTrailingCommentRanges(text, node.getEnd()) ?? [];
+  const lines = [...above, ...after].map(commentText);
+  if (!lines.length) return undefined;
+  // Comments spanning several lines are one sentence
+  const description = lines.join(" ");
+  return description[0].toUpperCase() + description.slice(1);
+};
+
+const withNull = (schema) => {
+  if (typeof schema.type !== "string") {
+    return { anyOf: [schema, { type: "null" }] };
+  }
+  return {
+    ...schema,
+    type: [schema.type, "null"],
+    ...(schema.enum && { enum: [...schema.enum, null] }),
+  };
+};
+
+const schemaFor = (type) => {
+  if (type.isUnion()) {
+    const nullable = type.types.some((t) => t.flags & ts.TypeFlags.Null);
+    const rest = type.types.filter((t) => !(t.flags & ts.TypeFlags.Null));
+    let schema;
+    if (rest.every((t) => t.flags & ts.TypeFlags.BooleanLiteral)) {
+      schema = { type: "boolean" };
+    } else if (rest.every((t) => t.isStringLiteral())) {
+      schema = { type: "string", enum: rest.map((t) => t.value) };
+    } else if (rest.length === 1) {
+      schema = schemaFor(rest[0]);
+    } else {
+      schema = { anyOf: rest.map(schemaFor) };
+    }
+    return nullable ? withNull(schema) : schema;
+  }
+
+  if (type.flags & ts.TypeFlags.String) return { type: "string" };
+  if (type.flags & ts.TypeFlags.Number) return { type: "number" };
+  if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" };
+  if (type.isStringLiteral()) return { type: "string", enum: [type.value] };
+  if (checker.isArrayType(type)) {
+    return {
+      type: "array",
+      items: schemaFor(checker.getTypeArguments(type)[0]),
+    };
+  }
+
+  const name = type.getSymbol()?.getName();
+  if (name && schemaNames.has(name)) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+  return objectSchema(type);
+};
+
+// String fields holding ISO 8601 times (see the note in types.ts)
+const DATE_TIME_FIELDS = new Set([
+  "time",
+  "fetchedAt",
+  "arrivalTime",
+  "scheduledArrival",
+]);
+
+const objectSchema = (type) => {
+  const properties = {};
+  const required = [];
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration;
+    let schema = schemaFor(
+      checker.getTypeOfSymbolAtLocation(property, declaration)
+    );
+    if (DATE_TIME_FIELDS.has(property.name)) {
+      schema = { ...schema, format: "date-time" };
+    }
+    const description = describe(declaration);
+    properties[property.name] = description
+      ? { ...schema, description }
+      : schema;
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      required.push(property.name);
+    }
+  }
+  return { type: "object", properties, required };
+};
+
+const schemas = Object.fromEntries(
+  exported.map((statement) => [
+    statement.name.text,
+    objectSchema(checker.getTypeAtLocation(statement.name)),
+  ])
+);
+
+// Routes, with the schema each one returns
+
+const json = (schema, description) => ({
+  description,
+  headers: {
+    ETag: {
+      description: "Version of the body, for If-None-Match",
+      schema: { type: "string" },
+    },
+  },
+  content: {
+    "application/json": {
+      schema: { $ref: `#/components/schemas/${schema}` },
+    },
+  },
+});
+
+const notModified = {
+  description: "The body matches the If-None-Match ETag",
+};
+
+const flightParameters = [
+  {
+    name: "id",
+    in: "path",
+    required: true,
+    description: "Flight id from /flights, or any of the flight's callsigns",
+    schema: { type: "string" },
+  },
+  {
+    name: "demo",
+    in: "query",
+    description: "Set to 1 for a simulated flight instead of live data",
+    schema: { type: "string", enum: ["1"] },
+  },
+  {
+    name: "t",
+    in: "query",
+    description:
+      "With demo=1, pins the simulation to this many seconds after takeoff",
+    schema: { type: "number" },
+  },
+];
+
+const flightRoute = (operationId, summary, schema) => ({
+  get: {
+    operationId,
+    summary,
+    parameters: flightParameters,
+    responses: {
+      200: json(schema, summary),
+      304: notModified,
+      404: json("ApiError", "No tracked flight has this id"),
+    },
+  },
+});
+
+const document = {
+  openapi: "3.1.0",
+  info: {
+    title: "Leader Homecoming API",
+    version: "1.0.0",
+    description:
+      "Read-only status of the flights followed by the tracker. Responses carry an ETag; send it back in If-None-Match to get an empty 304 while nothing has changed. CORS is open to every origin.",
+  },
+  servers: [{ url: "/api/v1" }],
+  paths: {
+    "/flights": {
+      get: {
+        operationId: "listFlights",
+        summary: "Tracked flights and their planned routes",
+        responses: {
+          200: json(
+            "ApiFlightList",
+            "Tracked flights and their planned routes"
+          ),
+          304: notModified,
+        },
+      },
+    },
+    "/flights/{id}/status": flightRoute(
+      "getFlightStatus",
+      "Latest position, progress, ETA and milestones",
+      "ApiFlightStatus"
+    ),
+    "/flights/{id}/track": flightRoute(
+      "getFlightTrack",
+      "Positions recorded so far",
+      "ApiTrack"
+    ),
+  },
+  components: { schemas },
+};
+
+await writeFile(OUTPUT, `${JSON.stringify(document, null, 2)}\n`);
+console.log(`Wrote ${Object.keys(schemas).length} schemas to ${OUTPUT}`);
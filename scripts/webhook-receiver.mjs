@@ -0,0 +1,45 @@
+// Minimal webhook receiver for trying out WEBHOOK_URLS locally. Logs every
+// delivery and checks its signature when WEBHOOK_SECRET is set.
+//
+//   WEBHOOK_SECRET=dev node scripts/webhook-receiver.mjs
+//   WEBHOOK_URLS=http://localhost:4000 WEBHOOK_SECRET=dev npm run dev
+//
+// FAIL_FIRST=<n> answers the first n deliveries with a 500 to exercise
+// the retries.
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 4000;
+const SECRET = process.env.WEBHOOK_SECRET;
+let failures = Number(process.env.FAIL_FIRST) || 0;
+
+const verify = (body, signature) => {
+  if (!SECRET) return "unchecked";
+  const expected = `sha256=${createHmac("sha256", SECRET).update(body).digest("hex")}`;
+  const valid =
+    typeof signature === "string" &&
+    signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? "valid" : "INVALID";
+};
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = verify(body, req.headers["x-webhook-signature"]);
+    console.log(
+      `${new Date().toISOString()} ${req.headers["x-webhook-event"]} (signature ${signature})`
+    );
+    console.log(body);
+
+    if (failures > 0) {
+      failures -= 1;
+      res.writeHead(500).end();
+      return;
+    }
+    res.writeHead(signature === "INVALID" ? 401 : 204).end();
+  });
+}).listen(PORT, () => console.log(`Listening on http://localhost:${PORT}`));
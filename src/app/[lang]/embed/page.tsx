@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import FlightEmbed from "@/components/FlightEmbed";
+import { getTrackedFlightOrDefault } from "@/lib/config";
+import { parseEmbedOptions } from "@/lib/embed";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+// The tracked flights are read from config at request time, not at build time
+export const dynamic = "force-dynamic";
+
+// Widgets are shown inside other sites' pages, not in search results
+export const metadata: Metadata = {
+  robots: { index: false },
+};
+
+type Props = {
+  searchParams: Promise<{
+    flight?: string;
+    theme?: string;
+    size?: string;
+    demo?: string;
+    t?: string;
+  }>;
+};
+
+// /embed?flight=BG202&theme=light&size=small - for use in an <iframe>
+export default async function EmbedPage({ searchParams }: Props) {
+  const { flight: key, theme, size, demo, t } = await searchParams;
+  const flight = getTrackedFlightOrDefault(key ?? null);
+  if (!flight) notFound();
+
+  return (
+    <FlightEmbed
+      flight={flight}
+      {...parseEmbedOptions(theme, size)}
+      simulation={parseSimulationRequest(demo, t)}
+    />
+  );
+}
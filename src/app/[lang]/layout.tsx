@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import { Geist, Geist_Mono } from "next/font/google";
+import { notFound } from "next/navigation";
+import LocaleProvider from "@/components/LocaleProvider";
+import { getTranslator } from "@/lib/i18n";
+import { isLocale } from "@/lib/i18n/config";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+type Props = {
+  children: React.ReactNode;
+  params: Promise<{ lang: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: Omit<Props, "children">): Promise<Metadata> {
+  const { lang } = await params;
+  if (!isLocale(lang)) return {};
+
+  const { t } = getTranslator(lang);
+  return {
+    // Share images need absolute URLs; Next.js guesses when this is unset
+    metadataBase: process.env.SITE_URL
+      ? new URL(process.env.SITE_URL)
+      : undefined,
+    title: t("meta.title"),
+    description: t("meta.description"),
+    openGraph: {
+      type: "website",
+      siteName: t("app.title"),
+      title: t("meta.title"),
+      description: t("meta.description"),
+      locale: lang,
+    },
+    twitter: { card: "summary_large_image" },
+  };
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<Props>) {
+  const { lang } = await params;
+  if (!isLocale(lang)) notFound();
+
+  return (
+    <html lang={lang}>
+      <head>
+        <link
+          rel="stylesheet"
+          href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css"
+          integrity="sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY="
+          crossOrigin=""
+        />
+      </head>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        <LocaleProvider locale={lang}>{children}</LocaleProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,20 @@
+import FlightsOverview from "@/components/FlightsOverview";
+import { loadTrackedFlights } from "@/lib/config";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+// The tracked flights are read from config at request time, not at build time
+export const dynamic = "force-dynamic";
+
+type Props = {
+  searchParams: Promise<{ demo?: string; t?: string }>;
+};
+
+export default async function Home({ searchParams }: Props) {
+  const { demo, t } = await searchParams;
+  return (
+    <FlightsOverview
+      flights={loadTrackedFlights()}
+      simulation={parseSimulationRequest(demo, t)}
+    />
+  );
+}
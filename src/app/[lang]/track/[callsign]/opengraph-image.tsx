@@ -0,0 +1,216 @@
+import { ImageResponse } from "next/og";
+import { getTrackedFlight } from "@/lib/config";
+import { getFlightSummary } from "@/lib/flightFeed";
+import type { FlightSummary } from "@/lib/flightSummary";
+import { getTranslator } from "@/lib/i18n";
+import { formatDuration, formatLocalTime } from "@/lib/i18n/format";
+import { parseSimulationRequest } from "@/lib/simulator";
+import { metresToFeet } from "@/lib/units";
+
+// Share image with the flight's live position, progress and ETA, so links
+// to a flight page show its current status
+
+export const dynamic = "force-dynamic";
+
+export const alt = "Live flight status";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const MAP_WIDTH = 440;
+const MAP_HEIGHT = 300;
+const MAP_PADDING = 20;
+
+type Props = {
+  params: Promise<{ lang: string; callsign: string }>;
+};
+
+export default async function Image({ params }: Props) {
+  const flight = getTrackedFlight((await params).callsign);
+  // Labels stay in English: the font ImageResponse bundles has no Bengali
+  // (nor arrows, hence the dash between the airports)
+  const i18n = getTranslator("en");
+  const { t } = i18n;
+
+  if (!flight) {
+    return new ImageResponse(
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#14532d",
+          color: "white",
+          fontSize: 72,
+        }}
+      >
+        {t("app.title")}
+      </div>,
+      size
+    );
+  }
+
+  let summary: FlightSummary | null = null;
+  try {
+    // Uses the simulator when FLIGHT_SIMULATION=1, as pages do
+    summary = await getFlightSummary(
+      flight,
+      parseSimulationRequest(null, null)
+    );
+  } catch (err) {
+    console.error("Error building share image status:", err);
+  }
+
+  // Route and aircraft drawn on a plain lat/lon grid fitted to the route
+  const lats = flight.waypoints.map((w) => w.lat);
+  const lons = flight.waypoints.map((w) => w.lon);
+  const [minLat, maxLat] = [Math.min(...lats), Math.max(...lats)];
+  const [minLon, maxLon] = [Math.min(...lons), Math.max(...lons)];
+  const scale = Math.min(
+    (MAP_WIDTH - 2 * MAP_PADDING) / Math.max(maxLon - minLon, 1),
+    (MAP_HEIGHT - 2 * MAP_PADDING) / Math.max(maxLat - minLat, 1)
+  );
+  const project = (lat: number, lon: number) =>
+    `${MAP_PADDING + (lon - minLon) * scale},${MAP_PADDING + (maxLat - lat) * scale}`;
+
+  const sample = summary?.sample ?? null;
+  const eta = summary?.eta ?? null;
+  const progress = summary?.progress ?? 0;
+  const plane = sample ? project(sample.lat, sample.lon).split(",") : null;
+
+  const headline = !eta
+    ? t("flight.searching")
+    : eta.basis === "arrived"
+      ? t("flight.landed")
+      : t("flight.remaining", {
+          duration: formatDuration(i18n, eta.remainingSeconds),
+        });
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: 60,
+        color: "white",
+        background: "linear-gradient(135deg, #14532d, #166534, #7f1d1d)",
+        fontSize: 28,
+      }}
+    >
+      <div style={{ display: "flex", fontSize: 36, color: "#bbf7d0" }}>
+        {t("app.title")}
+      </div>
+      <div style={{ display: "flex", fontSize: 64, fontWeight: 700 }}>
+        {flight.flightNumber} • {flight.passengerName}
+      </div>
+      <div style={{ display: "flex", color: "#d1d5db" }}>
+        {flight.origin.name} – {flight.destination.name}
+      </div>
+
+      <div style={{ display: "flex", flex: 1, marginTop: 30 }}>
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "center",
+            flex: 1,
+            gap: 12,
+          }}
+        >
+          <div style={{ display: "flex", color: "#d1d5db" }}>
+            {t(
+              eta?.basis === "arrived"
+                ? "flight.arrived"
+                : eta?.basis === "schedule"
+                  ? "flight.scheduledArrival"
+                  : "flight.estimatedArrival"
+            )}
+          </div>
+          <div style={{ display: "flex", fontSize: 56, fontWeight: 700 }}>
+            {headline}
+          </div>
+          {summary?.identity === "unconfirmed" && (
+            <div style={{ display: "flex", color: "#fde047" }}>
+              {t("flight.unconfirmedIdentity", {
+                flight: flight.flightNumber,
+              })}
+            </div>
+          )}
+          {eta && (
+            <div style={{ display: "flex", color: "#d1d5db" }}>
+              {t("flight.localTime", {
+                time: formatLocalTime(
+                  i18n,
+                  eta.arrivalTime,
+                  flight.destination.timeZone
+                ),
+              })}
+            </div>
+          )}
+          {sample && sample.altitude !== null && !sample.onGround && (
+            <div style={{ display: "flex", color: "#d1d5db" }}>
+              {t("unit.ft", {
+                value: Math.round(metresToFeet(sample.altitude)),
+              })}
+            </div>
+          )}
+        </div>
+
+        <svg
+          width={MAP_WIDTH}
+          height={MAP_HEIGHT}
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        >
+          <polyline
+            points={flight.waypoints
+              .map((w) => project(w.lat, w.lon))
+              .join(" ")}
+            fill="none"
+            stroke="#4ade80"
+            strokeWidth={4}
+            strokeDasharray="12 8"
+          />
+          {plane && (
+            <circle
+              cx={plane[0]}
+              cy={plane[1]}
+              r={12}
+              fill="#facc15"
+              stroke="white"
+              strokeWidth={4}
+            />
+          )}
+        </svg>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 24 }}>
+        <div
+          style={{
+            display: "flex",
+            flex: 1,
+            height: 20,
+            borderRadius: 10,
+            background: "#374151",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              width: `${progress * 100}%`,
+              height: "100%",
+              borderRadius: 10,
+              background: "linear-gradient(90deg, #22c55e, #eab308)",
+            }}
+          />
+        </div>
+        <div style={{ display: "flex", fontSize: 36, fontWeight: 700 }}>
+          {t("unit.percent", { value: Math.round(progress * 100) })}
+        </div>
+      </div>
+    </div>,
+    size
+  );
+}
@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import LeaderHomecoming from "@/components/LeaderHomecoming";
+import { getTrackedFlight } from "@/lib/config";
+import { getTranslator } from "@/lib/i18n";
+import { isLocale } from "@/lib/i18n/config";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+// The tracked flights are read from config at request time, not at build time
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ lang: string; callsign: string }>;
+  searchParams: Promise<{ demo?: string; t?: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { lang, callsign } = await params;
+  const flight = getTrackedFlight(callsign);
+  if (!flight || !isLocale(lang)) return {};
+
+  const { t } = getTranslator(lang);
+  const title = t("meta.flightTitle", {
+    flight: flight.flightNumber,
+    passenger: flight.passengerName,
+  });
+  const description = t("meta.flightDescription", {
+    flight: flight.flightNumber,
+    origin: flight.origin.name,
+    destination: flight.destination.name,
+  });
+  // The share image itself comes from opengraph-image.tsx
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+export default async function TrackFlightPage({ params, searchParams }: Props) {
+  const flight = getTrackedFlight((await params).callsign);
+  if (!flight) notFound();
+
+  const { demo, t } = await searchParams;
+  return (
+    <LeaderHomecoming
+      flight={flight}
+      simulation={parseSimulationRequest(demo, t)}
+    />
+  );
+}
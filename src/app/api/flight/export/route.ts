@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrackedFlightOrDefault } from "@/lib/config";
+import { getFlightTrack } from "@/lib/flightFeed";
+import { parseSimulationRequest } from "@/lib/simulator";
+import {
+  isTrackFileFormat,
+  serializeTrackDocument,
+  TRACK_FILE_FORMATS,
+  TRACK_FILE_TYPES,
+} from "@/lib/trackFiles";
+import { getFlightId } from "@/lib/trackedFlight";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/flight/export?flight=BG202&format=gpx - recorded track and
+// planned route as a GPX, KML or GeoJSON download
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const key = params.get("flight");
+  const flight = getTrackedFlightOrDefault(key);
+
+  if (!flight) {
+    return NextResponse.json(
+      { message: `Unknown flight ${key}` },
+      { status: 404 }
+    );
+  }
+
+  const format = params.get("format") ?? "geojson";
+  if (!isTrackFileFormat(format)) {
+    return NextResponse.json(
+      {
+        message: `Unknown format ${format}, expected one of ${TRACK_FILE_FORMATS.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const id = getFlightId(flight);
+  const track = await getFlightTrack(
+    flight,
+    parseSimulationRequest(params.get("demo"), params.get("t"))
+  );
+  const body = serializeTrackDocument(format, {
+    name: id,
+    track,
+    route: flight.waypoints,
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": `${TRACK_FILE_TYPES[format]}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${id.replace(/[^\w-]/g, "_")}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrackedFlightOrDefault } from "@/lib/config";
+import { getFlightStatus, getSimulatedStatus } from "@/lib/flightFeed";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+// Always run on request: caching is handled by the shared upstream snapshot
+export const dynamic = "force-dynamic";
+
+// GET /api/flight?flight=BG202 (defaults to the first configured flight).
+// Add ?demo=1 (and optionally &t=<seconds after takeoff>) for simulated data.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const key = params.get("flight");
+  const flight = getTrackedFlightOrDefault(key);
+
+  if (!flight) {
+    return NextResponse.json(
+      { message: `Unknown flight ${key}` },
+      { status: 404 }
+    );
+  }
+
+  const simulation = parseSimulationRequest(
+    params.get("demo"),
+    params.get("t")
+  );
+  const status = simulation
+    ? getSimulatedStatus(flight, simulation)
+    : await getFlightStatus(flight);
+
+  // Nothing to serve yet because upstream is failing
+  const unavailable = status.fetchedAt === null;
+  const headers: HeadersInit = { "Cache-Control": "no-store" };
+  if (status.retryAt) {
+    headers["Retry-After"] = String(
+      Math.ceil((status.retryAt - Date.now()) / 1000)
+    );
+  }
+
+  return NextResponse.json(status, {
+    status: unavailable ? 503 : 200,
+    headers,
+  });
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrackedFlightOrDefault } from "@/lib/config";
+import { subscribe } from "@/lib/flightStream";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_MS = 15000;
+// How long browsers wait before reconnecting after the stream drops
+const RETRY_MS = 5000;
+
+// GET /api/flight/stream?flight=BG202 - Server-Sent Events carrying the same
+// status as /api/flight as "status" events, whenever it changes. Browsers
+// resume with the Last-Event-ID header (or ?lastEventId= for clients that
+// can't set headers). Accepts ?demo=1 and &t= like /api/flight.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const key = params.get("flight");
+  const flight = getTrackedFlightOrDefault(key);
+
+  if (!flight) {
+    return NextResponse.json(
+      { message: `Unknown flight ${key}` },
+      { status: 404 }
+    );
+  }
+
+  const simulation = parseSimulationRequest(
+    params.get("demo"),
+    params.get("t")
+  );
+  const lastEventId = Number(
+    request.headers.get("last-event-id") ?? params.get("lastEventId") ?? NaN
+  );
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed; the abort handler cleans up
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      const unsubscribe = subscribe(
+        flight,
+        simulation,
+        ({ id, status }) =>
+          send(`id: ${id}\nevent: status\ndata: ${JSON.stringify(status)}\n\n`),
+        Number.isFinite(lastEventId) ? lastEventId : null
+      );
+      const heartbeat = setInterval(
+        () => send(": heartbeat\n\n"),
+        HEARTBEAT_MS
+      );
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
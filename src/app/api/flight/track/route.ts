@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrackedFlightOrDefault } from "@/lib/config";
+import { getFlightTrack } from "@/lib/flightFeed";
+import type { FlightTrackResponse } from "@/lib/flightTypes";
+import { getFlightId } from "@/lib/trackedFlight";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/flight/track?flight=BG202 - positions recorded so far
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const key = params.get("flight");
+  const flight = getTrackedFlightOrDefault(key);
+
+  if (!flight) {
+    return NextResponse.json(
+      { message: `Unknown flight ${key}` },
+      { status: 404 }
+    );
+  }
+
+  const samples = await getFlightTrack(
+    flight,
+    parseSimulationRequest(params.get("demo"), params.get("t"))
+  );
+
+  const body: FlightTrackResponse = { id: getFlightId(flight), samples };
+  return NextResponse.json(body, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllFlightStatuses } from "@/lib/flightFeed";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/flights - status of every configured flight, for the overview map
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const statuses = await getAllFlightStatuses(
+    parseSimulationRequest(params.get("demo"), params.get("t"))
+  );
+  return NextResponse.json(statuses, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { loadMapLayers } from "@/lib/config";
+
+// Read at request time so the config comes from the server's environment
+export const dynamic = "force-dynamic";
+
+// GET /api/map/layers - base maps and overlays for the map's layer control
+export async function GET() {
+  return NextResponse.json(loadMapLayers());
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import type { ApiError } from "@/lib/api/types";
+import { apiJson, corsPreflight, getApiFlightStatus } from "@/lib/api/v1";
+import { getTrackedFlight } from "@/lib/config";
+import { parseSimulationRequest } from "@/lib/simulator";
+
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/v1/flights/BG202/status - position, progress, ETA and milestones
+export async function GET(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const flight = getTrackedFlight(id);
+  if (!flight) {
+    const body: ApiError = { message: `Unknown flight ${id}` };
+    return apiJson(request, body, 404);
+  }
+
+  const query = request.nextUrl.searchParams;
+  return apiJson(
+    request,
+    await getApiFlightStatus(
+      flight,
+      parseSimulationRequest(query.get("demo"), query.get("t"))
+    )
+  );
+}
+
+export const OPTIONS = corsPreflight;
@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import type { ApiFlightList } from "@/lib/api/types";
+import { apiJson, corsPreflight, toApiFlight } from "@/lib/api/v1";
+import { loadTrackedFlights } from "@/lib/config";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/flights - every tracked flight and its planned route
+export async function GET(request: NextRequest) {
+  const body: ApiFlightList = {
+    flights: loadTrackedFlights().map(toApiFlight),
+  };
+  return apiJson(request, body);
+}
+
+export const OPTIONS = corsPreflight;
@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import openapi from "@/lib/api/openapi.json";
+import { apiJson, corsPreflight } from "@/lib/api/v1";
+
+// GET /api/v1/openapi.json - the API description, generated from
+// lib/api/types.ts by `npm run api:openapi`
+export async function GET(request: NextRequest) {
+  return apiJson(request, openapi);
+}
+
+export const OPTIONS = corsPreflight;
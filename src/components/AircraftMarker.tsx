@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Marker, Popup, Tooltip } from "react-leaflet";
+import L from "leaflet";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+import { metresToFeet, msToFpm, msToMph } from "@/lib/units";
+
+type LatLng = [number, number];
+
+// Latest state shown when hovering the aircraft, in state vector units
+export type AircraftInfo = {
+  callsign?: string;
+  altitude?: number | null; // metres
+  velocity?: number | null; // metres per second
+  verticalRate?: number | null; // metres per second
+  squawk?: string | null;
+};
+
+type Props = {
+  position: LatLng;
+  heading?: number | null; // degrees clockwise from north
+  label?: string; // shown as a permanent tooltip
+  estimated?: boolean; // dead-reckoned rather than reported
+  info?: AircraftInfo;
+};
+
+// Longest glide between two positions; updates closer together than this
+// (e.g. during replay) glide for the time between them instead
+const ANIMATION_MS = 1500;
+
+// Airliner silhouette pointing north, rotated by the heading
+const iconHtml = (estimated: boolean) => `
+  <svg class="aircraft-icon" viewBox="0 0 24 24" width="28" height="28"
+    style="transform-origin: 50% 50%; opacity: ${estimated ? 0.6 : 1}">
+    <path d="M12 2c.8 0 1.5.7 1.5 1.5V9l7.5 4.5v2L13.5 13v5l2.5 2v1.5L12 20.5l-4 1V20l2.5-2v-5L3 15.5v-2L10.5 9V3.5C10.5 2.7 11.2 2 12 2z"
+      fill="${estimated ? "#9ca3af" : "#f59e0b"}" stroke="${estimated ? "#e5e7eb" : "#78350f"}"
+      stroke-width="1" ${estimated ? 'stroke-dasharray="2 2"' : ""} />
+  </svg>`;
+
+const lerp = (a: number, b: number, f: number) => a + (b - a) * f;
+
+const rotateIcon = (marker: L.Marker, deg: number) => {
+  const svg = marker.getElement()?.querySelector<SVGElement>(".aircraft-icon");
+  if (svg) svg.style.transform = `rotate(${deg}deg)`;
+};
+
+// Turn the short way round, e.g. 350° -> 10° through north
+const lerpAngle = (a: number, b: number, f: number) =>
+  a + (((((b - a) % 360) + 540) % 360) - 180) * f;
+
+const Details: React.FC<{ info: AircraftInfo; estimated?: boolean }> = ({
+  info,
+  estimated,
+}) => {
+  const { t } = useI18n();
+  const format = (
+    value: number | null | undefined,
+    convert: (value: number) => number,
+    unit: MessageKey
+  ) =>
+    value === null || value === undefined
+      ? "-"
+      : t(unit, { value: Math.round(convert(value)) });
+
+  return (
+    <div style={{ lineHeight: 1.4 }}>
+      {info.callsign && <strong>{info.callsign}</strong>}
+      {estimated && <div>{t("aircraft.estimated")}</div>}
+      <div>
+        {t("aircraft.altitude", {
+          value: format(info.altitude, metresToFeet, "unit.ft"),
+        })}
+      </div>
+      <div>
+        {t("aircraft.speed", {
+          value: format(info.velocity, msToMph, "unit.mph"),
+        })}
+      </div>
+      <div>
+        {t("aircraft.verticalRate", {
+          value: format(info.verticalRate, msToFpm, "unit.fpm"),
+        })}
+      </div>
+      <div>{t("aircraft.squawk", { value: info.squawk ?? "-" })}</div>
+    </div>
+  );
+};
+
+const AircraftMarker: React.FC<Props> = ({
+  position,
+  heading = null,
+  label,
+  estimated = false,
+  info,
+}) => {
+  const markerRef = useRef<L.Marker | null>(null);
+  // The marker is moved by the animation below, not by re-rendering
+  const [initialPosition] = useState(position);
+  const shownHeading = useRef(heading ?? 0);
+  const lastMove = useRef<number | null>(null);
+  const [lat, lon] = position;
+
+  // A new icon replaces the marker's element, so only make one when the
+  // style changes; the effect below puts the rotation back on it
+  const icon = useMemo(
+    () =>
+      L.divIcon({
+        html: iconHtml(estimated),
+        className: "",
+        iconSize: [28, 28],
+        iconAnchor: [14, 14],
+      }),
+    [estimated]
+  );
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (marker) rotateIcon(marker, shownHeading.current);
+  }, [icon]);
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (!marker) return;
+
+    const rotate = (deg: number) => {
+      shownHeading.current = deg;
+      rotateIcon(marker, deg);
+    };
+
+    const from = marker.getLatLng();
+    const fromHeading = shownHeading.current;
+    const toHeading = heading ?? fromHeading;
+    // Don't glide the long way round across the antimeridian
+    let toLon = lon;
+    while (toLon - from.lng > 180) toLon -= 360;
+    while (toLon - from.lng < -180) toLon += 360;
+
+    const start = performance.now();
+    const duration =
+      lastMove.current === null
+        ? 0
+        : Math.min(ANIMATION_MS, start - lastMove.current);
+    lastMove.current = start;
+
+    let frame = 0;
+    const step = (time: number) => {
+      const f =
+        duration > 0 ? Math.min(Math.max((time - start) / duration, 0), 1) : 1;
+      marker.setLatLng([lerp(from.lat, lat, f), lerp(from.lng, toLon, f)]);
+      rotate(lerpAngle(fromHeading, toHeading, f));
+      if (f < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [lat, lon, heading]);
+
+  return (
+    <Marker ref={markerRef} position={initialPosition} icon={icon}>
+      {label ? (
+        <>
+          <Tooltip permanent direction="right" offset={[14, 0]}>
+            {label}
+          </Tooltip>
+          {info && (
+            <Popup>
+              <Details info={info} estimated={estimated} />
+            </Popup>
+          )}
+        </>
+      ) : (
+        (info || estimated) && (
+          <Tooltip direction="top" offset={[0, -14]}>
+            <Details info={info ?? {}} estimated={estimated} />
+          </Tooltip>
+        )
+      )}
+    </Marker>
+  );
+};
+
+export default AircraftMarker;
@@ -0,0 +1,89 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, CheckCircle2, Siren } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { Anomaly } from "@/lib/anomalies";
+import { describeAnomaly } from "@/lib/i18n/describe";
+
+type Props = {
+  anomalies: Anomaly[];
+  // Unix seconds of the displayed position; cleared anomalies fade out
+  // some time after it
+  now?: number;
+};
+
+// Cleared anomalies stay up this long so a brief one isn't missed
+const SHOW_CLEARED_FOR_S = 30 * 60;
+
+const AnomalyBanner: React.FC<Props> = ({ anomalies, now }) => {
+  const i18n = useI18n();
+  const { t, time } = i18n;
+  const formatUtc = (unixSeconds: number) =>
+    t("time.utc", {
+      time: time(unixSeconds * 1000, {
+        timeZone: "UTC",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }),
+    });
+
+  const shown = anomalies
+    .filter(
+      (a) =>
+        a.end === null ||
+        (now !== undefined && now - a.end < SHOW_CLEARED_FOR_S)
+    )
+    // Ongoing first, then the most recent
+    .sort(
+      (a, b) =>
+        Number(a.end !== null) - Number(b.end !== null) || b.start - a.start
+    );
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-4" role="alert">
+      {shown.map((a) => {
+        const cleared = a.end !== null;
+        const { title, detail } = describeAnomaly(i18n, a);
+        const Icon = cleared
+          ? CheckCircle2
+          : a.severity === "critical"
+            ? Siren
+            : AlertTriangle;
+        return (
+          <div
+            key={a.id}
+            className={`flex items-center gap-3 rounded-lg p-4 border ${
+              cleared
+                ? "bg-white/10 border-white/20 text-gray-300"
+                : a.severity === "critical"
+                  ? "bg-red-600/80 border-red-300 text-white animate-pulse"
+                  : "bg-yellow-500/30 border-yellow-300 text-yellow-100"
+            }`}
+          >
+            <Icon className="w-6 h-6 shrink-0" />
+            <div>
+              <p className="font-bold">
+                {cleared ? t("anomaly.cleared", { title }) : title}
+              </p>
+              <p className="text-sm">
+                {a.end === null
+                  ? t("anomaly.since", { detail, start: formatUtc(a.start) })
+                  : t("anomaly.between", {
+                      detail,
+                      start: formatUtc(a.start),
+                      end: formatUtc(a.end),
+                    })}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AnomalyBanner;
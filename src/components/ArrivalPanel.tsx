@@ -0,0 +1,114 @@
+"use client";
+
+import React from "react";
+import { PlaneLanding } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { ArrivalStatus } from "@/lib/arrival";
+import { formatAge, formatDuration, formatLocalTime } from "@/lib/i18n/format";
+import type { TrackedFlight } from "@/lib/trackedFlight";
+
+type Props = {
+  arrival: ArrivalStatus;
+  flight: TrackedFlight;
+};
+
+// Final approach countdown, then the taxi to the gate and the block times
+const ArrivalPanel: React.FC<Props> = ({ arrival, flight }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { phase, approach, blockTimes } = arrival;
+  const airport = flight.destination.name;
+
+  const localTime = (unixSeconds: number | null, timeZone?: string) =>
+    unixSeconds === null
+      ? "--"
+      : formatLocalTime(i18n, unixSeconds * 1000, timeZone);
+  const between = (from: number | null, to: number | null) =>
+    from === null || to === null ? "--" : formatDuration(i18n, to - from);
+
+  if (phase === "approach") {
+    return (
+      <div className="bg-sky-900/60 backdrop-blur-md rounded-lg p-6 border border-sky-300/40 mb-4">
+        <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <PlaneLanding className="w-6 h-6 text-sky-300" />
+          {t("arrival.approachTitle", { airport })}
+        </h2>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-gray-300">{t("arrival.runway")}</p>
+            <p className="text-2xl font-bold">{approach?.designator ?? "--"}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-300">{t("arrival.toTouchdown")}</p>
+            <p className="text-2xl font-bold">
+              {arrival.touchdownKm === null
+                ? "--"
+                : t("unit.km", {
+                    value: i18n.number(arrival.touchdownKm, {
+                      maximumFractionDigits: 1,
+                    }),
+                  })}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-300">{t("arrival.touchdownIn")}</p>
+            <p className="text-2xl font-bold">
+              {arrival.touchdownSeconds === null
+                ? "--"
+                : formatAge(i18n, arrival.touchdownSeconds)}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const times = [
+    {
+      label: t("arrival.offBlock"),
+      value: localTime(blockTimes.offBlock, flight.origin.timeZone),
+    },
+    {
+      label: t("arrival.takeoff"),
+      value: localTime(blockTimes.takeoff, flight.origin.timeZone),
+    },
+    {
+      label: t("arrival.touchdown"),
+      value: localTime(blockTimes.touchdown, flight.destination.timeZone),
+    },
+    {
+      label: t("arrival.onBlock"),
+      value: localTime(blockTimes.onBlock, flight.destination.timeZone),
+    },
+    {
+      label: t("arrival.flightTime"),
+      value: between(blockTimes.takeoff, blockTimes.touchdown),
+    },
+    {
+      label: t("arrival.blockTime"),
+      value: between(blockTimes.offBlock, blockTimes.onBlock),
+    },
+  ];
+
+  return (
+    <div className="bg-linear-to-br from-green-600 to-green-800 rounded-lg p-6 border border-green-400/50 mb-4">
+      <h2 className="text-xl font-bold flex items-center gap-2">
+        <PlaneLanding className="w-6 h-6" />
+        {t("arrival.landedAt", { airport })}
+      </h2>
+      <p className="text-green-100 mb-4">
+        {t(phase === "taxiing" ? "arrival.taxiing" : "arrival.atGate")}
+      </p>
+      <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        {times.map(({ label, value }) => (
+          <div key={label}>
+            <dt className="text-sm text-green-100">{label}</dt>
+            <dd className="font-bold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default ArrivalPanel;
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { ExternalLink, Plane } from "lucide-react";
+import { useFlightUpdates } from "@/hooks/useFlightUpdates";
+import { useI18n } from "@/hooks/useI18n";
+import type { EmbedSize, EmbedTheme } from "@/lib/embed";
+import type {
+  FlightResponse,
+  FlightTrackResponse,
+  TrackSample,
+} from "@/lib/flightTypes";
+import { summarizeFlight } from "@/lib/flightSummary";
+import { greatCirclePath } from "@/lib/geo";
+import { formatDuration, formatLocalTime } from "@/lib/i18n/format";
+import { SimulationRequest, toSimulationQuery } from "@/lib/simulator";
+import { appendSample, toTrackSample } from "@/lib/track";
+import { getFlightId, TrackedFlight } from "@/lib/trackedFlight";
+
+// Load map component client-side only to avoid Leaflet server-side errors
+const WorldMapClient = dynamic(() => import("./WorldMapClient"), {
+  ssr: false,
+});
+
+// Map height in pixels for each size
+const MAP_HEIGHTS: Record<EmbedSize, number | null> = {
+  small: null,
+  medium: 180,
+  large: 320,
+};
+
+const THEME_STYLES: Record<
+  EmbedTheme,
+  { card: string; muted: string; warning: string; bar: string; link: string }
+> = {
+  dark: {
+    card: "bg-linear-to-br from-green-900 via-green-800 to-red-900 text-white",
+    muted: "text-green-200",
+    warning: "text-yellow-300",
+    bar: "bg-gray-700",
+    link: "text-green-200 hover:text-white",
+  },
+  light: {
+    card: "bg-white text-gray-900 border border-gray-200",
+    muted: "text-gray-500",
+    warning: "text-amber-700",
+    bar: "bg-gray-200",
+    link: "text-green-700 hover:text-green-900",
+  },
+};
+
+type Props = {
+  flight: TrackedFlight;
+  theme: EmbedTheme;
+  size: EmbedSize;
+  simulation?: SimulationRequest | null;
+};
+
+// Compact map, progress and ETA card for other sites to show in an iframe
+const FlightEmbed: React.FC<Props> = ({
+  flight,
+  theme,
+  size,
+  simulation = null,
+}) => {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const [status, setStatus] = useState<FlightResponse | null>(null);
+  const [track, setTrack] = useState<TrackSample[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const id = getFlightId(flight);
+  const simulationQuery = toSimulationQuery(simulation);
+  const flightQuery = `flight=${encodeURIComponent(id)}${
+    simulationQuery ? `&${simulationQuery}` : ""
+  }`;
+
+  useFlightUpdates(flightQuery, {
+    onStatus: (data) => {
+      setStatus(data);
+      setError(null);
+      if (data.state && data.match?.identity === "confirmed") {
+        const sample = toTrackSample(data.state);
+        setTrack((samples) => appendSample(samples, sample));
+      }
+    },
+    onError: setError,
+  });
+
+  useEffect(() => {
+    const fetchTrack = async () => {
+      try {
+        const response = await fetch(`/api/flight/track?${flightQuery}`, {
+          cache: "no-store",
+        });
+        if (!response.ok) throw new Error("Failed to fetch flight track");
+        const data: FlightTrackResponse = await response.json();
+        setTrack((polled) => polled.reduce(appendSample, data.samples));
+      } catch (err) {
+        console.error("Error fetching flight track:", err);
+      }
+    };
+
+    fetchTrack();
+  }, [flightQuery]);
+
+  const styles = THEME_STYLES[theme];
+  const mapHeight = MAP_HEIGHTS[size];
+  const summary = status ? summarizeFlight(flight, status, track) : null;
+  const eta = summary?.eta ?? null;
+  const sample = summary?.sample ?? null;
+
+  return (
+    <div className={`min-h-screen p-3 ${styles.card}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Plane className="w-5 h-5 shrink-0 text-green-400" />
+          <div className="min-w-0">
+            <p className="font-bold truncate">
+              {flight.flightNumber} • {flight.passengerName}
+            </p>
+            <p className={`text-xs truncate ${styles.muted}`}>
+              {flight.origin.name} → {flight.destination.name}
+            </p>
+            {summary?.identity === "unconfirmed" && (
+              <p className={`text-xs truncate ${styles.warning}`}>
+                {t("flight.unconfirmedIdentity", {
+                  flight: flight.flightNumber,
+                })}
+              </p>
+            )}
+          </div>
+        </div>
+        <a
+          href={`/${locale}/track/${encodeURIComponent(id)}${
+            simulationQuery ? `?${simulationQuery}` : ""
+          }`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-center gap-1 text-xs shrink-0 ${styles.link}`}
+        >
+          {t("embed.openTracker")}
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+
+      {mapHeight !== null && (
+        <div className="w-full rounded-lg overflow-hidden mb-2">
+          <WorldMapClient
+            center={[30, 60]}
+            zoom={2}
+            height={mapHeight}
+            pathCoords={greatCirclePath(flight.waypoints).map((p) => [
+              p.lat,
+              p.lon,
+            ])}
+            flownCoords={track.map((s) => [s.lat, s.lon])}
+            planePosition={sample ? [sample.lat, sample.lon] : null}
+            planeHeading={sample?.heading}
+          />
+        </div>
+      )}
+
+      <div className={`rounded-full h-2 overflow-hidden ${styles.bar}`}>
+        <div
+          className="bg-linear-to-r from-green-500 to-yellow-500 h-full transition-all duration-500"
+          style={{ width: `${(summary?.progress ?? 0) * 100}%` }}
+        />
+      </div>
+
+      <div className="mt-2 flex items-end justify-between gap-2 text-sm">
+        {summary ? (
+          <>
+            <div>
+              <p className={`text-xs ${styles.muted}`}>
+                {t(
+                  eta?.basis === "arrived"
+                    ? "flight.arrived"
+                    : eta?.basis === "schedule"
+                      ? "flight.scheduledArrival"
+                      : "flight.estimatedArrival"
+                )}
+              </p>
+              <p className="font-bold">
+                {!eta
+                  ? "--"
+                  : eta.basis === "arrived"
+                    ? t("flight.landed")
+                    : t("flight.remaining", {
+                        duration: formatDuration(i18n, eta.remainingSeconds),
+                      })}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">
+                {t("unit.percent", {
+                  value: Math.round(summary.progress * 100),
+                })}
+              </p>
+              {eta && (
+                <p className={`text-xs ${styles.muted}`}>
+                  {t("flight.localTime", {
+                    time: formatLocalTime(
+                      i18n,
+                      eta.arrivalTime,
+                      flight.destination.timeZone
+                    ),
+                  })}
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className={styles.muted}>{error ?? t("flight.searching")}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlightEmbed;
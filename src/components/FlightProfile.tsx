@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useState } from "react";
+import { Activity } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { TrackSample } from "@/lib/flightTypes";
+import { SIGNAL_LOST_AFTER_S } from "@/lib/freshness";
+import {
+  buildProfile,
+  nearestProfilePoint,
+  ProfileAxis,
+  ProfilePoint,
+  profileX,
+} from "@/lib/profile";
+import type { MessageKey } from "@/lib/i18n";
+import { metresToFeet, msToFpm, msToMph } from "@/lib/units";
+
+type Props = {
+  samples: TrackSample[];
+  // Time of the position shown on the map (unix seconds)
+  cursorTime: number | null;
+  // Point under the pointer, so the map can mark it
+  onHover: (point: ProfilePoint | null) => void;
+  // Clicked point, e.g. to seek the replay there
+  onSelect?: (point: ProfilePoint) => void;
+};
+
+type Series = {
+  label: MessageKey;
+  unit: MessageKey; // short unit name, e.g. "ft"
+  format: MessageKey; // value with unit, e.g. "{value} ft"
+  color: string;
+  value: (p: ProfilePoint) => number | null; // in display units
+  // Vertical rate is centred on level flight
+  symmetric?: boolean;
+};
+
+const SERIES: Series[] = [
+  {
+    label: "profile.altitude",
+    unit: "unit.ftShort",
+    format: "unit.ft",
+    color: "#4ade80",
+    value: (p) => (p.altitude === null ? null : metresToFeet(p.altitude)),
+  },
+  {
+    label: "profile.groundSpeed",
+    unit: "unit.mphShort",
+    format: "unit.mph",
+    color: "#60a5fa",
+    value: (p) => (p.velocity === null ? null : msToMph(p.velocity)),
+  },
+  {
+    label: "profile.verticalRate",
+    unit: "unit.fpmShort",
+    format: "unit.fpm",
+    color: "#fbbf24",
+    value: (p) => (p.verticalRate === null ? null : msToFpm(p.verticalRate)),
+    symmetric: true,
+  },
+];
+
+// Chart geometry in SVG units; the SVG scales to the card's width
+const WIDTH = 720;
+const PANEL_HEIGHT = 90;
+const PANEL_GAP = 24;
+const LEFT = 64;
+const RIGHT = 12;
+const TOP = 18; // room for the first panel's title
+const BOTTOM = 24;
+const HEIGHT =
+  TOP + SERIES.length * PANEL_HEIGHT + (SERIES.length - 1) * PANEL_GAP + BOTTOM;
+
+// 1, 2 or 5 times a power of ten, giving about `count` steps over `range`
+const niceStep = (range: number, count: number) => {
+  const raw = range / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+};
+
+const ticks = (
+  min: number,
+  max: number,
+  count: number,
+  step = niceStep(max - min, count)
+) => {
+  if (max <= min) return [min];
+  const result = [];
+  for (let t = Math.ceil(min / step) * step; t <= max; t += step) {
+    result.push(t);
+  }
+  return result;
+};
+
+// Time axis steps, in minutes
+const TIME_STEPS = [5, 10, 15, 30, 60, 120, 180, 360];
+
+const timeTicks = (min: number, max: number, count: number) => {
+  const minutes =
+    TIME_STEPS.find((m) => (max - min) / (m * 60) <= count) ?? 720;
+  return ticks(min, max, count, minutes * 60);
+};
+
+const FlightProfile: React.FC<Props> = ({
+  samples,
+  cursorTime,
+  onHover,
+  onSelect,
+}) => {
+  const [axis, setAxis] = useState<ProfileAxis>("time");
+  const [hovered, setHovered] = useState<ProfilePoint | null>(null);
+  const { t, number, time } = useI18n();
+
+  const formatUtc = (unixSeconds: number) =>
+    time(unixSeconds * 1000, {
+      timeZone: "UTC",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+  const formatX = (x: number) =>
+    axis === "time"
+      ? t("time.utc", { time: formatUtc(x) })
+      : t("unit.km", { value: Math.round(x) });
+
+  const points = buildProfile(samples);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length < 2) {
+    return (
+      <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          {t("profile.title")}
+        </h3>
+        <p className="text-sm text-gray-400">{t("profile.empty")}</p>
+      </div>
+    );
+  }
+
+  const xMin = profileX(first, axis);
+  const xMax = Math.max(profileX(last, axis), xMin + 1);
+  const toSvgX = (x: number) =>
+    LEFT + ((x - xMin) / (xMax - xMin)) * (WIDTH - LEFT - RIGHT);
+  const fromSvgX = (svgX: number) =>
+    xMin + ((svgX - LEFT) / (WIDTH - LEFT - RIGHT)) * (xMax - xMin);
+
+  // Hovering takes over the cursor from the map position
+  const cursor =
+    hovered ??
+    (cursorTime !== null
+      ? nearestProfilePoint(points, "time", cursorTime)
+      : null);
+
+  const pointAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    return nearestProfilePoint(points, axis, fromSvgX(svgX));
+  };
+
+  const hover = (point: ProfilePoint | null) => {
+    setHovered(point);
+    onHover(point);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Activity className="w-5 h-5" />
+        {t("profile.title")}
+        <div className="ml-auto flex gap-1 text-sm font-normal">
+          {(["time", "distance"] as const).map((a) => (
+            <button
+              key={a}
+              onClick={() => setAxis(a)}
+              className={`px-2 py-0.5 rounded ${
+                axis === a
+                  ? "bg-green-600 text-white"
+                  : "bg-white/10 text-green-200 hover:text-white"
+              }`}
+            >
+              {t(a === "time" ? "profile.time" : "profile.distance")}
+            </button>
+          ))}
+        </div>
+      </h3>
+
+      {/* Readout for the cursor position */}
+      <p className="text-xs text-gray-300 font-mono mb-2 min-h-4">
+        {cursor &&
+          [
+            formatX(profileX(cursor, axis)),
+            ...SERIES.map((s) => {
+              const value = s.value(cursor);
+              return value === null
+                ? "-"
+                : t(s.format, { value: Math.round(value) });
+            }),
+          ].join(" • ")}
+      </p>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onPointerMove={(e) => hover(pointAt(e))}
+        onPointerLeave={() => hover(null)}
+        onClick={(e) => {
+          const point = pointAt(e);
+          if (point && onSelect) onSelect(point);
+        }}
+      >
+        {SERIES.map((series, i) => {
+          const top = TOP + i * (PANEL_HEIGHT + PANEL_GAP);
+          const values = points.map(series.value);
+          const known = values.filter((v): v is number => v !== null);
+          const peak = Math.max(...known.map(Math.abs), 1);
+          const step = niceStep(peak, 2);
+          const yMax = Math.ceil(peak / step) * step;
+          const yMin = series.symmetric ? -yMax : 0;
+          const toSvgY = (v: number) =>
+            top + PANEL_HEIGHT - ((v - yMin) / (yMax - yMin)) * PANEL_HEIGHT;
+
+          // Break the line where values are missing or coverage dropped out
+          let path = "";
+          points.forEach((p, j) => {
+            const v = values[j];
+            if (v === null) return;
+            const previous = points[j - 1];
+            const join =
+              previous &&
+              values[j - 1] !== null &&
+              p.time - previous.time < SIGNAL_LOST_AFTER_S;
+            path += `${join ? "L" : "M"}${toSvgX(profileX(p, axis)).toFixed(1)},${toSvgY(v).toFixed(1)}`;
+          });
+
+          const cursorValue = cursor ? series.value(cursor) : null;
+
+          return (
+            <g key={series.label}>
+              <text
+                x={LEFT}
+                y={top - 6}
+                fill="#d1d5db"
+                fontSize={11}
+                fontWeight={600}
+              >
+                {t(series.label)} ({t(series.unit)})
+              </text>
+              {ticks(yMin, yMax, 2, step).map((tick) => (
+                <g key={tick}>
+                  <line
+                    x1={LEFT}
+                    x2={WIDTH - RIGHT}
+                    y1={toSvgY(tick)}
+                    y2={toSvgY(tick)}
+                    stroke="rgba(255,255,255,0.15)"
+                    strokeDasharray={
+                      tick === 0 && series.symmetric ? "" : "2 4"
+                    }
+                  />
+                  <text
+                    x={LEFT - 6}
+                    y={toSvgY(tick) + 3}
+                    fill="#9ca3af"
+                    fontSize={10}
+                    textAnchor="end"
+                  >
+                    {number(tick)}
+                  </text>
+                </g>
+              ))}
+              <path
+                d={path}
+                fill="none"
+                stroke={series.color}
+                strokeWidth={1.5}
+              />
+              {cursor && cursorValue !== null && (
+                <circle
+                  cx={toSvgX(profileX(cursor, axis))}
+                  cy={toSvgY(cursorValue)}
+                  r={3.5}
+                  fill={series.color}
+                  stroke="white"
+                />
+              )}
+            </g>
+          );
+        })}
+
+        {/* X axis */}
+        {(axis === "time"
+          ? timeTicks(xMin, xMax, 6)
+          : ticks(xMin, xMax, 6)
+        ).map((tick) => (
+          <text
+            key={tick}
+            x={toSvgX(tick)}
+            y={HEIGHT - 6}
+            fill="#9ca3af"
+            fontSize={10}
+            textAnchor="middle"
+          >
+            {axis === "time" ? formatUtc(tick) : t("unit.km", { value: tick })}
+          </text>
+        ))}
+
+        {cursor && (
+          <line
+            x1={toSvgX(profileX(cursor, axis))}
+            x2={toSvgX(profileX(cursor, axis))}
+            y1={TOP}
+            y2={HEIGHT - BOTTOM}
+            stroke="white"
+            strokeOpacity={0.6}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default FlightProfile;
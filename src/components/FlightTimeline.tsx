@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import {
+  Bell,
+  BellOff,
+  Flag,
+  MapPin,
+  PlaneLanding,
+  PlaneTakeoff,
+  TrendingDown,
+  TrendingUp,
+  Wifi,
+  WifiOff,
+} from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { NotificationStatus } from "@/hooks/useMilestoneNotifications";
+import { describeMilestone } from "@/lib/i18n/describe";
+import type { Milestone, MilestoneKind } from "@/lib/milestones";
+
+type Props = {
+  milestones: Milestone[];
+  // IANA zone shown next to UTC, e.g. "Asia/Dhaka"
+  timeZone?: string;
+  notifications?: {
+    status: NotificationStatus;
+    enable: () => void;
+    disable: () => void;
+  };
+};
+
+const ICONS: Record<MilestoneKind, React.ElementType> = {
+  takeoff: PlaneTakeoff,
+  "top-of-climb": TrendingUp,
+  country: MapPin,
+  "destination-country": Flag,
+  "top-of-descent": TrendingDown,
+  landing: PlaneLanding,
+  "signal-lost": WifiOff,
+  "signal-regained": Wifi,
+};
+
+const FlightTimeline: React.FC<Props> = ({
+  milestones,
+  timeZone = "UTC",
+  notifications,
+}) => {
+  const i18n = useI18n();
+  const { t, time } = i18n;
+  const formatTime = (unixSeconds: number, zone: string) =>
+    time(unixSeconds * 1000, {
+      timeZone: zone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      // e.g. "GMT+6" next to the UTC time
+      timeZoneName: zone === "UTC" ? undefined : "short",
+    });
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+        {t("timeline.title")}
+        {notifications && notifications.status !== "unsupported" && (
+          <button
+            onClick={
+              notifications.status === "on"
+                ? notifications.disable
+                : notifications.enable
+            }
+            disabled={notifications.status === "denied"}
+            title={t(
+              notifications.status === "denied"
+                ? "timeline.blocked"
+                : "timeline.notifyHint"
+            )}
+            className="ml-auto flex items-center gap-1 text-sm font-normal text-green-200 hover:text-white disabled:opacity-50"
+          >
+            {notifications.status === "on" ? (
+              <>
+                <Bell className="w-4 h-4" />
+                {t("timeline.alertsOn")}
+              </>
+            ) : (
+              <>
+                <BellOff className="w-4 h-4" />
+                {t("timeline.notifyMe")}
+              </>
+            )}
+          </button>
+        )}
+      </h3>
+      {notifications?.status === "on" && (
+        <p className="text-xs text-gray-400 -mt-3 mb-4">
+          {t("timeline.alertsNeedTab")}
+        </p>
+      )}
+      {milestones.length === 0 ? (
+        <p className="text-sm text-gray-400">{t("timeline.empty")}</p>
+      ) : (
+        <ol className="space-y-3 max-h-96 overflow-y-auto">
+          {milestones.map((m) => {
+            const Icon = ICONS[m.kind];
+            return (
+              <li key={m.id} className="flex items-start gap-3">
+                <Icon
+                  className={`w-5 h-5 mt-0.5 shrink-0 ${
+                    m.kind === "signal-lost"
+                      ? "text-yellow-300"
+                      : "text-green-400"
+                  }`}
+                />
+                <div>
+                  <p className="font-semibold">{describeMilestone(i18n, m)}</p>
+                  <p className="text-xs text-gray-300 font-mono">
+                    {t("time.utc", { time: formatTime(m.time, "UTC") })}
+                    {timeZone !== "UTC" && ` • ${formatTime(m.time, timeZone)}`}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default FlightTimeline;
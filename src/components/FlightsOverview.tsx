@@ -0,0 +1,195 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Plane, MapPin, AlertCircle } from "lucide-react";
+import dynamic from "next/dynamic";
+import { useI18n } from "@/hooks/useI18n";
+import type { FlightsResponse } from "@/lib/flightTypes";
+import { describeStatusMessage } from "@/lib/i18n/describe";
+import { greatCirclePath } from "@/lib/geo";
+import { SimulationRequest, toSimulationQuery } from "@/lib/simulator";
+import { getFlightId, TrackedFlight } from "@/lib/trackedFlight";
+import { metresToFeet } from "@/lib/units";
+import LanguageSwitcher from "./LanguageSwitcher";
+import type { MapPlane, MapRoute } from "./WorldMapClient";
+
+// Load map component client-side only to avoid Leaflet server-side errors
+const WorldMapClient = dynamic(() => import("./WorldMapClient"), {
+  ssr: false,
+});
+
+// Route colours, assigned to flights in config order
+const ROUTE_COLORS = ["#4ade80", "#60a5fa", "#f472b6", "#facc15", "#a78bfa"];
+
+type Props = {
+  flights: TrackedFlight[];
+  // Show simulated aircraft instead of live data
+  simulation?: SimulationRequest | null;
+};
+
+const FlightsOverview: React.FC<Props> = ({ flights, simulation = null }) => {
+  const i18n = useI18n();
+  const { locale, t, plural } = i18n;
+  const simulationQuery = toSimulationQuery(simulation);
+  const [statuses, setStatuses] = useState<FlightsResponse["flights"]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch data on mount and every 30 seconds
+  useEffect(() => {
+    const fetchStatuses = async () => {
+      try {
+        const response = await fetch(
+          `/api/flights${simulationQuery ? `?${simulationQuery}` : ""}`,
+          { cache: "no-store" }
+        );
+        if (!response.ok) {
+          throw new Error(t("error.fetchFlights"));
+        }
+        const data: FlightsResponse = await response.json();
+        setStatuses(data.flights);
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching flight data:", err);
+        setError(err instanceof Error ? err.message : t("error.unknown"));
+      }
+    };
+
+    fetchStatuses();
+    const interval = setInterval(fetchStatuses, 30000);
+    return () => clearInterval(interval);
+  }, [simulationQuery, t]);
+
+  const statusById = new Map(statuses.map((s) => [s.id, s]));
+
+  const routes: MapRoute[] = flights.map((flight, i) => ({
+    coords: greatCirclePath(flight.waypoints).map((p) => [p.lat, p.lon]),
+    color: ROUTE_COLORS[i % ROUTE_COLORS.length],
+  }));
+
+  const planes: MapPlane[] = statuses.flatMap((status) =>
+    status.state
+      ? [
+          {
+            position: [status.state.lat, status.state.lon],
+            heading: status.state.trueTrack,
+            info: {
+              callsign: status.state.callsign,
+              altitude: status.state.baroAltitude,
+              velocity: status.state.velocity,
+              verticalRate: status.state.verticalRate,
+              squawk: status.state.squawk,
+            },
+            label:
+              status.match?.identity === "unconfirmed"
+                ? t("overview.unconfirmedLabel", { flight: status.id })
+                : status.id,
+          },
+        ]
+      : []
+  );
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-green-900 via-green-800 to-red-900 text-white p-4">
+      {/* Header */}
+      <div className="max-w-7xl mx-auto mb-8 text-center relative">
+        <LanguageSwitcher className="absolute right-0 top-0" />
+        <h1 className="text-5xl font-bold mb-2 bg-linear-to-r from-green-400 to-red-400 bg-clip-text text-transparent">
+          {t("app.title")}
+        </h1>
+        <p className="text-xl text-green-200">
+          {plural("overview.following", flights.length)}
+        </p>
+        {simulation && (
+          <p className="mt-2 text-sm text-yellow-300">{t("app.simulated")}</p>
+        )}
+      </div>
+
+      <div className="max-w-7xl mx-auto grid md:grid-cols-3 gap-6">
+        {/* Overview Map */}
+        <div className="md:col-span-2 bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+          <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+            <MapPin className="w-6 h-6" />
+            {t("overview.allFlights")}
+          </h2>
+
+          <div
+            className="w-full rounded-lg overflow-hidden"
+            style={{ height: "60vh" }}
+          >
+            <WorldMapClient
+              center={[30, 60]}
+              zoom={3}
+              height="100%"
+              routes={routes}
+              planes={planes}
+            />
+          </div>
+
+          {error && (
+            <div className="mt-4 flex items-center justify-center gap-3 text-yellow-300">
+              <AlertCircle className="w-5 h-5" />
+              <p>{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Flight list */}
+        <div className="space-y-4">
+          {flights.map((flight, i) => {
+            const id = getFlightId(flight);
+            const status = statusById.get(id);
+
+            return (
+              <Link
+                key={id}
+                href={`/${locale}/track/${encodeURIComponent(id)}${
+                  simulationQuery ? `?${simulationQuery}` : ""
+                }`}
+                className="block bg-white/10 backdrop-blur-md rounded-lg p-5 border border-white/20 hover:bg-white/20 transition-colors"
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <Plane
+                    className="w-6 h-6"
+                    style={{ color: ROUTE_COLORS[i % ROUTE_COLORS.length] }}
+                  />
+                  <p className="text-xl font-bold">{flight.flightNumber}</p>
+                  {status?.state && status.match?.identity === "confirmed" && (
+                    <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+                  )}
+                  {status?.match?.identity === "unconfirmed" && (
+                    <span className="text-xs text-yellow-300">
+                      {t("overview.unconfirmed")}
+                    </span>
+                  )}
+                </div>
+                <p className="text-green-200">{flight.passengerName}</p>
+                <p className="text-sm text-gray-300">
+                  {flight.origin.name} → {flight.destination.name}
+                </p>
+                <p className="text-xs text-gray-400 mt-2">
+                  {!status
+                    ? t("overview.searching")
+                    : status.state
+                      ? `${status.state.callsign || t("overview.unknownCallsign")} • ${t(
+                          "unit.ft",
+                          {
+                            value: metresToFeet(status.state.baroAltitude ?? 0),
+                          }
+                        )}`
+                      : describeStatusMessage(i18n, status, flight)}
+                </p>
+              </Link>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto mt-8 text-center text-sm text-gray-400">
+        <p>{t("app.footer")}</p>
+      </div>
+    </div>
+  );
+};
+
+export default FlightsOverview;
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import { Languages } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALE_COOKIE, LOCALE_NAMES, LOCALES } from "@/lib/i18n/config";
+
+// Links to the current page in the other languages
+const LanguageSwitcher: React.FC<{ className?: string }> = ({
+  className = "",
+}) => {
+  const { locale, t } = useI18n();
+  const pathname = usePathname();
+  const search = useSearchParams().toString();
+  // Drop the current locale prefix, keep the rest of the path
+  const rest = pathname.split("/").slice(2).join("/");
+
+  return (
+    <div
+      className={`flex items-center gap-2 text-sm ${className}`}
+      aria-label={t("app.language")}
+    >
+      <Languages className="w-4 h-4 text-green-200" />
+      {LOCALES.map((l) =>
+        l === locale ? (
+          <span key={l} className="font-semibold text-white">
+            {LOCALE_NAMES[l]}
+          </span>
+        ) : (
+          <Link
+            key={l}
+            href={`/${l}${rest ? `/${rest}` : ""}${search ? `?${search}` : ""}`}
+            hrefLang={l}
+            lang={l}
+            // Remembered for URLs without a locale prefix (see proxy.ts)
+            onClick={() => {
+              document.cookie = `${LOCALE_COOKIE}=${l}; path=/; max-age=31536000; samesite=lax`;
+            }}
+            className="text-green-200 hover:text-white"
+          >
+            {LOCALE_NAMES[l]}
+          </Link>
+        )
+      )}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
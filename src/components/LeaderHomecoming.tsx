@@ -0,0 +1,904 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Plane,
+  Clock,
+  MapPin,
+  Gauge,
+  AlertCircle,
+  ArrowLeft,
+  History,
+  WifiOff,
+} from "lucide-react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { detectAnomalies } from "@/lib/anomalies";
+import { getArrivalStatus, getLandedSample, runwayName } from "@/lib/arrival";
+import type {
+  FlightIdentity,
+  FlightResponse,
+  FlightTrackResponse,
+  TrackSample,
+} from "@/lib/flightTypes";
+import { EtaConfidence, estimateArrival } from "@/lib/eta";
+import { buildRoute, greatCirclePath, projectOntoRoute } from "@/lib/geo";
+import { deadReckon, getFreshness } from "@/lib/freshness";
+import { detectMilestones } from "@/lib/milestones";
+import type { ProfilePoint } from "@/lib/profile";
+import { describeStatusMessage } from "@/lib/i18n/describe";
+import { formatAge, formatDuration, formatLocalTime } from "@/lib/i18n/format";
+import { findRegion, locateRegion } from "@/lib/regions";
+import { metresToFeet, msToMph } from "@/lib/units";
+import { appendSample, countSamplesUntil, toTrackSample } from "@/lib/track";
+import { parseTrackDocument, TrackFileError } from "@/lib/trackFiles";
+import { SimulationRequest, toSimulationQuery } from "@/lib/simulator";
+import {
+  getDestinationCountry,
+  getFlightId,
+  TrackedFlight,
+  Waypoint,
+} from "@/lib/trackedFlight";
+import { useBorders } from "@/hooks/useBorders";
+import { useFlightUpdates } from "@/hooks/useFlightUpdates";
+import { useI18n } from "@/hooks/useI18n";
+import { useMilestoneNotifications } from "@/hooks/useMilestoneNotifications";
+import { useNow } from "@/hooks/useNow";
+import { useReplay } from "@/hooks/useReplay";
+import AnomalyBanner from "./AnomalyBanner";
+import ArrivalPanel from "./ArrivalPanel";
+import FlightProfile from "./FlightProfile";
+import FlightTimeline from "./FlightTimeline";
+import LanguageSwitcher from "./LanguageSwitcher";
+import ReplayControls from "./ReplayControls";
+import TrackFiles from "./TrackFiles";
+import type { MapArrival } from "./WorldMapClient";
+
+// Load map component client-side only to avoid Leaflet server-side errors
+const WorldMapClient = dynamic(() => import("./WorldMapClient"), {
+  ssr: false,
+});
+
+interface FlightData {
+  currentLat: number | null;
+  currentLon: number | null;
+  altitude: number;
+  speed: number;
+  progress: number;
+  isLive: boolean;
+  callsign?: string;
+  onGround?: boolean;
+  // "unconfirmed" when the aircraft is only a fallback guess
+  identity?: FlightIdentity;
+  // Position against the planned route, in km
+  alongTrackKm?: number;
+  crossTrackKm?: number;
+  // Position the values were derived from
+  sample?: TrackSample;
+  // Seconds since the position was reported, and when (client time, ms)
+  // that age was measured
+  positionAge?: number;
+  receivedAt?: number;
+  // Only known for live positions, in state vector units
+  verticalRate?: number | null;
+  squawk?: string | null;
+}
+
+type Props = {
+  flight: TrackedFlight;
+  // Show the simulated aircraft (see lib/simulator.ts) instead of live data
+  simulation?: SimulationRequest | null;
+};
+
+const CONFIDENCE_STYLES: Record<EtaConfidence, string> = {
+  high: "bg-green-400",
+  medium: "bg-yellow-400",
+  low: "bg-red-400",
+};
+
+const coordinateDigits = {
+  minimumFractionDigits: 4,
+  maximumFractionDigits: 4,
+};
+
+const LeaderHomecoming: React.FC<Props> = ({ flight, simulation = null }) => {
+  const i18n = useI18n();
+  const { locale, t, number } = i18n;
+  const [flightData, setFlightData] = useState<FlightData>({
+    currentLat: null,
+    currentLon: null,
+    altitude: 0,
+    speed: 0,
+    progress: 0,
+    isLive: false,
+  });
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  // Positions recorded so far, seeded from the server and extended by polls
+  const [track, setTrack] = useState<TrackSample[]>([]);
+  // Replay mode plays back the recorded track, or one loaded from a file
+  const [replaying, setReplaying] = useState(false);
+  const [importedTrack, setImportedTrack] = useState<TrackSample[] | null>(
+    null
+  );
+  // Route loaded from a GPX/KML/GeoJSON file, replacing the planned one
+  const [importedRoute, setImportedRoute] = useState<Waypoint[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Point hovered on the profile chart, marked on the map
+  const [profileCursor, setProfileCursor] = useState<ProfilePoint | null>(null);
+
+  const departureCity = flight.origin.name;
+  const arrivalCity = flight.destination.name;
+  const flightNumber = flight.operator;
+  const passengerName = flight.passengerName;
+
+  // Waypoints for map display
+  const waypoints = importedRoute ?? flight.waypoints;
+  const route = useMemo(() => buildRoute(waypoints), [waypoints]);
+
+  // Query string for the API routes, carrying the demo mode along
+  const simulationQuery = toSimulationQuery(simulation);
+  const flightQuery = `flight=${encodeURIComponent(getFlightId(flight))}${
+    simulationQuery ? `&${simulationQuery}` : ""
+  }`;
+
+  // Panel values for a position, used for both live polls and replay
+  const deriveFlightData = (
+    sample: TrackSample,
+    callsign: string,
+    isLive: boolean,
+    identity?: FlightIdentity,
+    minAlongKm = 0
+  ): FlightData => {
+    const { lat, lon, altitude, velocity, onGround } = sample;
+
+    const altitudeFeet = altitude ? Math.round(metresToFeet(altitude)) : 0;
+    const speedMph = velocity ? Math.round(msToMph(velocity)) : 0;
+
+    // Progress is the distance flown along the planned route
+    const position = projectOntoRoute(route, sample, minAlongKm);
+    const alongKm = Math.max(position.alongKm, minAlongKm);
+    const progress =
+      route.totalKm > 0 ? Math.min(alongKm / route.totalKm, 1) : 0;
+
+    return {
+      currentLat: lat,
+      currentLon: lon,
+      altitude: altitudeFeet,
+      speed: speedMph,
+      progress: progress,
+      isLive,
+      callsign,
+      onGround: onGround,
+      identity,
+      alongTrackKm: position.alongKm,
+      crossTrackKm: position.crossKm,
+      sample,
+    };
+  };
+
+  // Apply a status pushed by the server (or polled while the stream is down)
+  const handleStatus = (data: FlightResponse) => {
+    setLoading(false);
+
+    // Upstream failing with nothing cached yet
+    if (data.fetchedAt === null) {
+      setError(
+        describeStatusMessage(i18n, data, flight) || t("error.fetchFlights")
+      );
+      return;
+    }
+
+    const targetFlight = data.state;
+
+    // If no match found
+    if (!targetFlight) {
+      setError(
+        describeStatusMessage(i18n, data, flight) || t("error.noFlights")
+      );
+      return;
+    }
+
+    // Aged by the server's clock, so a wrong clock here doesn't matter
+    const sample = toTrackSample(targetFlight);
+    const positionAge = Math.max(data.fetchedAt / 1000 - sample.time, 0);
+    const receivedAt = Date.now();
+
+    // Keep live progress moving forwards along the route
+    setFlightData((previous) => {
+      const next = {
+        ...deriveFlightData(
+          sample,
+          targetFlight.callsign || t("overview.unknownCallsign"),
+          true,
+          data.match?.identity,
+          previous.isLive ? previous.alongTrackKm : 0
+        ),
+        positionAge,
+        receivedAt,
+        verticalRate: targetFlight.verticalRate,
+        squawk: targetFlight.squawk,
+      };
+      return previous.isLive && previous.identity === next.identity
+        ? { ...next, progress: Math.max(next.progress, previous.progress) }
+        : next;
+    });
+
+    if (data.match?.identity === "confirmed") {
+      setTrack((samples) => appendSample(samples, sample));
+    }
+
+    setLastUpdate(new Date(data.fetchedAt));
+    setError(null);
+  };
+
+  useFlightUpdates(flightQuery, {
+    onStatus: handleStatus,
+    onError: (message) => {
+      setError(message);
+      setLoading(false);
+    },
+  });
+
+  // Load the track recorded before this page was opened
+  useEffect(() => {
+    const fetchTrack = async () => {
+      try {
+        const response = await fetch(`/api/flight/track?${flightQuery}`, {
+          cache: "no-store",
+        });
+        if (!response.ok) throw new Error("Failed to fetch flight track");
+        const data: FlightTrackResponse = await response.json();
+        // Keep positions polled while the track was loading
+        setTrack((polled) => polled.reduce(appendSample, data.samples));
+      } catch (err) {
+        console.error("Error fetching flight track:", err);
+      }
+    };
+
+    fetchTrack();
+  }, [flightQuery]);
+
+  const replaySamples = importedTrack ?? track;
+  const replay = useReplay(replaySamples);
+
+  // A file's route replaces the planned route; its track is replayed
+  const importFile = async (file: File) => {
+    try {
+      const { track, route } = parseTrackDocument(await file.text());
+      if (route.length) setImportedRoute(route);
+      if (track.length) {
+        setImportedTrack(track);
+        setReplaying(true);
+        replay.rewind();
+      }
+      setImportError(null);
+    } catch (err) {
+      setImportError(
+        err instanceof TrackFileError
+          ? t(`files.error.${err.reason}`)
+          : t("error.readTrack")
+      );
+    }
+  };
+
+  // Live positions keep ageing between updates
+  const now = useNow(10000);
+  // Once the recorded track has landed, the server finding no aircraft just
+  // means the transponder went quiet at the gate: keep the landed position
+  // instead of the error, or of a fallback guess at another aircraft
+  const landedSample = getLandedSample(flight, track);
+  const statusError = landedSample ? null : error;
+  const latestData: FlightData =
+    landedSample &&
+    (!flightData.sample || flightData.identity === "unconfirmed")
+      ? {
+          ...deriveFlightData(
+            landedSample,
+            flight.flightNumber,
+            false,
+            "confirmed"
+          ),
+          positionAge:
+            now !== null ? Math.max(now / 1000 - landedSample.time, 0) : 0,
+        }
+      : flightData;
+  const liveData: FlightData =
+    latestData.positionAge !== undefined &&
+    latestData.receivedAt !== undefined &&
+    now !== null
+      ? {
+          ...latestData,
+          positionAge:
+            latestData.positionAge +
+            Math.max(now - latestData.receivedAt, 0) / 1000,
+        }
+      : latestData;
+
+  // Furthest along the route by each replay sample, so progress at the
+  // cursor can't jump back to an earlier leg where the route bends
+  const replayAlongKm = useMemo(() => {
+    let along = 0;
+    return replaySamples.map(
+      (s) =>
+        (along = Math.max(along, projectOntoRoute(route, s, along).alongKm))
+    );
+  }, [replaySamples, route]);
+
+  // What the panels and map show: the replayed position in replay mode
+  const replayCursor = countSamplesUntil(replaySamples, replay.time);
+  const displayed =
+    replaying && replay.sample
+      ? deriveFlightData(
+          replay.sample,
+          flight.flightNumber,
+          false,
+          undefined,
+          replayCursor > 0 ? replayAlongKm[replayCursor - 1] : 0
+        )
+      : liveData;
+
+  // While positions are stale, estimate where the aircraft is now from its
+  // last heading and speed
+  const freshness = getFreshness(displayed.positionAge ?? 0);
+  const estimatedPosition =
+    freshness !== "live" && displayed.sample
+      ? deadReckon(displayed.sample, displayed.positionAge ?? 0)
+      : null;
+
+  const flownTrack = replaying
+    ? [
+        ...replaySamples.filter((t) => t.time < replay.time),
+        ...(replay.sample ? [replay.sample] : []),
+      ]
+    : track;
+
+  // Country (and FIR) under the displayed position
+  const { countries, firs } = useBorders();
+  const location =
+    countries && displayed.currentLat !== null && displayed.currentLon !== null
+      ? locateRegion(countries, firs, {
+          lat: displayed.currentLat,
+          lon: displayed.currentLon,
+        })
+      : null;
+
+  // Milestones and anomalies along the flown track, up to the displayed
+  // time. Positions of another aircraft say nothing about this flight.
+  const eventTrack = displayed.identity === "unconfirmed" ? [] : flownTrack;
+  const eventTime = replaying
+    ? replay.time
+    : lastUpdate
+      ? lastUpdate.getTime() / 1000
+      : undefined;
+  const milestones = detectMilestones(eventTrack, {
+    route,
+    destinationCountry: getDestinationCountry(flight),
+    locate: countries ? (p) => findRegion(countries, p) : undefined,
+    now: eventTime,
+  });
+  // Detection only looks back, so a replay scans the whole track once and
+  // cuts the result at the replay time
+  const trackAnomalies = detectAnomalies(
+    displayed.identity === "unconfirmed"
+      ? []
+      : replaying
+        ? replaySamples
+        : track,
+    route
+  );
+  const anomalies = replaying
+    ? trackAnomalies
+        .filter((a) => a.start <= replay.time)
+        .map((a) =>
+          a.end !== null && a.end > replay.time ? { ...a, end: null } : a
+        )
+    : trackAnomalies;
+
+  const notifications = useMilestoneNotifications(
+    milestones,
+    flight.flightNumber,
+    !replaying
+  );
+
+  // Arrival estimate at the time of the displayed position
+  const eta = estimateArrival({
+    route,
+    sample: displayed.sample ?? null,
+    recent: eventTrack,
+    now: replaying
+      ? replay.time * 1000
+      : (lastUpdate?.getTime() ?? (displayed.sample?.time ?? 0) * 1000),
+    scheduledArrival: simulation ? undefined : flight.scheduledArrival,
+  });
+  const etaConfidence: EtaConfidence | null = eta
+    ? displayed.identity === "unconfirmed"
+      ? "low"
+      : eta.confidence
+    : null;
+
+  const planePosition: [number, number] | null = estimatedPosition
+    ? [estimatedPosition.lat, estimatedPosition.lon]
+    : displayed.currentLat && displayed.currentLon
+      ? [displayed.currentLat, displayed.currentLon]
+      : null;
+
+  // Terminal area view from the arrival radius to the gate. Taxi time runs
+  // on the wall clock, as no more positions come once the transponder is off
+  const arrivalTime = replaying
+    ? replay.time
+    : now !== null
+      ? now / 1000
+      : eventTime;
+  const arrival =
+    displayed.identity === "unconfirmed"
+      ? null
+      : getArrivalStatus(
+          flight,
+          displayed.sample ?? null,
+          eventTrack,
+          arrivalTime
+        );
+  const landed = arrival !== null && arrival.phase !== "approach";
+  const approach = arrival?.approach ?? null;
+  const mapArrival: MapArrival | null = arrival && {
+    runways: (flight.destination.runways ?? []).map((runway) => ({
+      ends: [
+        [runway.ends[0].lat, runway.ends[0].lon],
+        [runway.ends[1].lat, runway.ends[1].lon],
+      ],
+      label: t("arrival.runwayLabel", { runway: runwayName(runway) }),
+      active: approach?.runway === runwayName(runway),
+    })),
+    approachPath:
+      approach && !landed
+        ? [
+            [approach.fix.lat, approach.fix.lon],
+            [approach.threshold.lat, approach.threshold.lon],
+          ]
+        : [],
+    // Close in on the runway as the aircraft nears it
+    focus: [
+      ...(planePosition ? [planePosition] : []),
+      ...(approach
+        ? [
+            ...(landed ? [] : [approach.fix]),
+            approach.threshold,
+            approach.farEnd,
+          ]
+        : [flight.destination]
+      ).map((p): [number, number] => [p.lat, p.lon]),
+    ],
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-green-900 via-green-800 to-red-900 text-white p-4">
+      {/* Header */}
+      <div className="max-w-7xl mx-auto mb-8">
+        <div className="text-center mb-6 relative">
+          <Link
+            href={`/${locale}`}
+            className="absolute left-0 top-0 flex items-center gap-1 text-sm text-green-200 hover:text-white"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t("flight.allFlights")}
+          </Link>
+          <LanguageSwitcher className="absolute right-0 top-0" />
+          <h1 className="text-5xl font-bold mb-2 bg-linear-to-r from-green-400 to-red-400 bg-clip-text text-transparent">
+            {t("app.title")}
+          </h1>
+          <p className="text-xl text-green-200">
+            {t("flight.tracking", { name: passengerName })}
+          </p>
+
+          {/* Live indicator */}
+          {displayed.isLive &&
+            !simulation &&
+            displayed.identity !== "unconfirmed" &&
+            freshness === "live" && (
+              <div className="mt-2 flex items-center justify-center gap-2">
+                <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse" />
+                <span className="text-sm text-green-300">
+                  {t("flight.liveActive")}
+                </span>
+              </div>
+            )}
+          {/* Transponders are often switched off at the gate */}
+          {displayed.isLive && freshness !== "live" && !landed && (
+            <div className="mt-2 flex items-center justify-center gap-2">
+              <WifiOff
+                className={`w-4 h-4 ${
+                  freshness === "lost" ? "text-red-300" : "text-yellow-300"
+                }`}
+              />
+              <span
+                className={`text-sm ${
+                  freshness === "lost" ? "text-red-300" : "text-yellow-300"
+                }`}
+              >
+                {t(
+                  freshness === "lost"
+                    ? "flight.signalLost"
+                    : "flight.lastSeen",
+                  {
+                    age: formatAge(i18n, displayed.positionAge ?? 0),
+                  }
+                )}
+                {estimatedPosition && t("flight.showingEstimate")}
+              </span>
+            </div>
+          )}
+          {simulation && (
+            <div className="mt-2 flex items-center justify-center gap-2">
+              <div className="w-3 h-3 bg-yellow-400 rounded-full animate-pulse" />
+              <span className="text-sm text-yellow-300">
+                {t("app.simulated")}
+              </span>
+            </div>
+          )}
+          {displayed.isLive && displayed.identity === "unconfirmed" && (
+            <div className="mt-2 flex items-center justify-center gap-2">
+              <AlertCircle className="w-4 h-4 text-yellow-300" />
+              <span className="text-sm text-yellow-300">
+                {t("flight.unconfirmedMatch", {
+                  operator: flight.operator,
+                  flight: flight.flightNumber,
+                })}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <AnomalyBanner anomalies={anomalies} now={eventTime} />
+
+        {arrival && <ArrivalPanel arrival={arrival} flight={flight} />}
+
+        {/* Status Banner */}
+        <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+          {!replaying && loading ? (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-2"></div>
+              <p>{t("flight.searching")}</p>
+            </div>
+          ) : !replaying && statusError ? (
+            <div className="flex items-center justify-center gap-3 text-yellow-300">
+              <AlertCircle className="w-6 h-6" />
+              <p>
+                {statusError} -{" "}
+                <Link href="?demo=1" className="underline hover:text-white">
+                  {t("flight.viewDemo")}
+                </Link>
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-3">
+                <Plane className="w-8 h-8 text-green-400" />
+                <div>
+                  <p className="text-sm text-gray-300">
+                    {t("flight.callsign")}
+                  </p>
+                  <p className="text-2xl font-bold">
+                    {displayed.callsign || flightNumber}
+                  </p>
+                  {displayed.identity === "unconfirmed" && (
+                    <p className="text-xs text-yellow-300">
+                      {t("flight.unconfirmedIdentity", {
+                        flight: flight.flightNumber,
+                      })}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Clock className="w-8 h-8 text-yellow-400" />
+                <div>
+                  <p className="text-sm text-gray-300">
+                    {t(
+                      eta?.basis === "arrived"
+                        ? "flight.arrived"
+                        : eta?.basis === "schedule"
+                          ? "flight.scheduledArrival"
+                          : "flight.estimatedArrival"
+                    )}
+                  </p>
+                  {eta ? (
+                    <>
+                      <p className="text-2xl font-bold">
+                        {eta.basis === "arrived"
+                          ? t("flight.landed")
+                          : t("flight.remaining", {
+                              duration: formatDuration(
+                                i18n,
+                                eta.remainingSeconds
+                              ),
+                            })}
+                      </p>
+                      <p className="text-sm text-gray-300">
+                        {t("flight.localTime", {
+                          time: formatLocalTime(
+                            i18n,
+                            eta.arrivalTime,
+                            flight.destination.timeZone
+                          ),
+                        })}
+                        {eta.delaySeconds !== null &&
+                          Math.abs(eta.delaySeconds) >= 5 * 60 &&
+                          ` ${t("flight.vsSchedule", {
+                            delay: `${eta.delaySeconds > 0 ? "+" : "-"}${formatDuration(
+                              i18n,
+                              Math.abs(eta.delaySeconds)
+                            )}`,
+                          })}`}
+                      </p>
+                      {etaConfidence && (
+                        <p className="flex items-center gap-1 text-xs text-gray-400">
+                          <span
+                            className={`w-2 h-2 rounded-full ${CONFIDENCE_STYLES[etaConfidence]}`}
+                          />
+                          {t(`flight.confidence.${etaConfidence}`)}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-2xl font-bold">--</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Gauge className="w-8 h-8 text-blue-400" />
+                <div>
+                  <p className="text-sm text-gray-300">
+                    {t("flight.progress")}
+                  </p>
+                  <p className="text-2xl font-bold">
+                    {t("unit.percent", {
+                      value: Math.round(displayed.progress * 100),
+                    })}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto grid md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-6">
+          {/* Flight Map */}
+          <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+              <MapPin className="w-6 h-6" />
+              {t(replaying ? "flight.replayTitle" : "flight.liveTitle")}
+              {!replaying && (
+                <button
+                  onClick={() => setReplaying(true)}
+                  className="ml-auto flex items-center gap-1 text-sm font-normal text-green-200 hover:text-white"
+                >
+                  <History className="w-4 h-4" />
+                  {t("flight.replay")}
+                </button>
+              )}
+            </h2>
+
+            <div
+              className="w-full rounded-lg overflow-hidden"
+              style={{ height: "60vh" }}
+            >
+              <WorldMapClient
+                center={[30, 60]}
+                zoom={3}
+                height="100%"
+                pathCoords={greatCirclePath(waypoints).map((p) => [
+                  p.lat,
+                  p.lon,
+                ])}
+                flownCoords={flownTrack.map((t) => [t.lat, t.lon])}
+                cursorPosition={
+                  profileCursor ? [profileCursor.lat, profileCursor.lon] : null
+                }
+                highlightCountry={location?.country}
+                arrival={mapArrival}
+                time={replaying ? replay.time * 1000 : undefined}
+                planePosition={planePosition}
+                planeHeading={displayed.sample?.heading}
+                planeInfo={{
+                  callsign: displayed.callsign,
+                  altitude: displayed.sample?.altitude,
+                  velocity: displayed.sample?.velocity,
+                  verticalRate: displayed.verticalRate,
+                  squawk: displayed.squawk,
+                }}
+                lastKnownPosition={
+                  estimatedPosition &&
+                  displayed.currentLat !== null &&
+                  displayed.currentLon !== null
+                    ? [displayed.currentLat, displayed.currentLon]
+                    : null
+                }
+              />
+            </div>
+
+            {/* Progress bar */}
+            <div className="mt-4">
+              <div className="bg-gray-700 rounded-full h-3 overflow-hidden">
+                <div
+                  className="bg-linear-to-r from-green-500 to-yellow-500 h-full transition-all duration-500"
+                  style={{ width: `${displayed.progress * 100}%` }}
+                />
+              </div>
+            </div>
+
+            <TrackFiles
+              flightQuery={flightQuery}
+              importError={importError}
+              routeImported={importedRoute !== null}
+              onImport={importFile}
+              onResetRoute={() => setImportedRoute(null)}
+            />
+
+            {replaying && (
+              <ReplayControls
+                replay={replay}
+                sourceLabel={t(
+                  importedTrack ? "replay.imported" : "replay.recorded"
+                )}
+                hasTrack={replaySamples.length > 1}
+                onExit={() => {
+                  replay.pause();
+                  setReplaying(false);
+                }}
+              />
+            )}
+
+            {!replaying && lastUpdate && (
+              <p className="text-xs text-gray-400 mt-2 text-center">
+                {t("flight.lastUpdated", {
+                  time: i18n.time(lastUpdate, { timeStyle: "medium" }),
+                })}
+              </p>
+            )}
+          </div>
+
+          {/* Whole track in replay mode, with the cursor at the replay time */}
+          <FlightProfile
+            samples={
+              displayed.identity === "unconfirmed"
+                ? []
+                : replaying
+                  ? replaySamples
+                  : track
+            }
+            cursorTime={displayed.sample?.time ?? null}
+            onHover={setProfileCursor}
+            onSelect={
+              replaying ? (point) => replay.seek(point.time) : undefined
+            }
+          />
+        </div>
+
+        {/* Flight Details */}
+        <div className="space-y-6">
+          <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+            <h3 className="text-xl font-bold mb-4">{t("flight.details")}</h3>
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm text-gray-300">
+                  {t("flight.currentLocation")}
+                </p>
+                <p className="text-xl font-bold text-green-400">
+                  {displayed.currentLat === null
+                    ? t("flight.searchingLocation")
+                    : !location
+                      ? t("flight.locating")
+                      : (location.country ?? t("flight.overWater"))}
+                </p>
+                {location?.fir && (
+                  <p className="text-sm text-gray-300">
+                    {t("flight.airspace", { fir: location.fir })}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-sm text-gray-300">{t("flight.altitude")}</p>
+                <p className="text-2xl font-bold">
+                  {t("unit.ft", { value: displayed.altitude })}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-300">
+                  {t("flight.groundSpeed")}
+                </p>
+                <p className="text-2xl font-bold">
+                  {t("unit.mph", { value: displayed.speed })}
+                </p>
+              </div>
+              {displayed.crossTrackKm !== undefined && (
+                <div>
+                  <p className="text-sm text-gray-300">
+                    {t("flight.offRoute")}
+                  </p>
+                  <p className="text-xl font-bold">
+                    {t("unit.km", {
+                      value: Math.round(displayed.crossTrackKm),
+                    })}
+                  </p>
+                </div>
+              )}
+              {displayed.currentLat && (
+                <div>
+                  <p className="text-sm text-gray-300">
+                    {t(
+                      freshness === "live"
+                        ? "flight.coordinates"
+                        : "flight.lastKnownCoordinates"
+                    )}
+                  </p>
+                  <p className="text-sm font-mono">
+                    {t("unit.degreesNorth", {
+                      value:
+                        typeof displayed.currentLat === "number"
+                          ? number(displayed.currentLat, coordinateDigits)
+                          : "N/A",
+                    })}
+                    <br />
+                    {t("unit.degreesEast", {
+                      value:
+                        typeof displayed.currentLon === "number"
+                          ? number(displayed.currentLon, coordinateDigits)
+                          : "N/A",
+                    })}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <FlightTimeline
+            milestones={milestones}
+            timeZone={flight.destination.timeZone}
+            notifications={notifications}
+          />
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+            <h3 className="text-xl font-bold mb-4">{t("flight.routeInfo")}</h3>
+            <div className="space-y-3">
+              <div className="flex items-start gap-3">
+                <div className="w-3 h-3 bg-red-500 rounded-full mt-1.5" />
+                <div>
+                  <p className="font-semibold">{t("flight.departure")}</p>
+                  <p className="text-sm text-gray-300">{departureCity}</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <div className="w-3 h-3 bg-green-500 rounded-full mt-1.5" />
+                <div>
+                  <p className="font-semibold">{t("flight.arrival")}</p>
+                  <p className="text-sm text-gray-300">{arrivalCity}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-linear-to-br from-green-600 to-green-800 rounded-lg p-6 border border-green-400/50">
+            <h3 className="text-xl font-bold mb-2">{t("flight.welcome")}</h3>
+            <p className="text-green-100">
+              {t("flight.welcomeMessage", { name: passengerName })}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto mt-8 text-center text-sm text-gray-400">
+        <p>{t("app.footer")}</p>
+      </div>
+    </div>
+  );
+};
+
+export default LeaderHomecoming;
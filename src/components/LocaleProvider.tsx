@@ -0,0 +1,15 @@
+"use client";
+
+import React from "react";
+import { LocaleContext } from "@/hooks/useI18n";
+import type { Locale } from "@/lib/i18n/config";
+
+// Makes the page's locale available to useI18n in client components
+const LocaleProvider: React.FC<{
+  locale: Locale;
+  children: React.ReactNode;
+}> = ({ locale, children }) => (
+  <LocaleContext value={locale}>{children}</LocaleContext>
+);
+
+export default LocaleProvider;
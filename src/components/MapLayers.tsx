@@ -0,0 +1,139 @@
+"use client";
+
+import React from "react";
+import {
+  CircleMarker,
+  GeoJSON,
+  LayerGroup,
+  LayersControl,
+  Polygon,
+  TileLayer,
+  Tooltip,
+  WMSTileLayer,
+} from "react-leaflet";
+import type { Layer } from "leaflet";
+import type { Feature } from "geojson";
+import { useI18n } from "@/hooks/useI18n";
+import { useMapLayers } from "@/hooks/useMapLayers";
+import { useNow } from "@/hooks/useNow";
+import type { LayerSource } from "@/lib/mapLayers";
+import { featureName, BorderCollection } from "@/lib/regions";
+import { nightPolygon, subsolarPoint } from "@/lib/solar";
+
+type Props = {
+  firs?: BorderCollection | null; // flight information regions, if available
+  time?: number; // unix ms for the day/night overlay; defaults to now
+};
+
+const SourceLayer: React.FC<{ source: LayerSource }> = ({ source }) =>
+  source.type === "wms" ? (
+    <WMSTileLayer
+      url={source.url}
+      params={{
+        layers: source.layers,
+        format: source.format ?? "image/png",
+        transparent: source.transparent ?? true,
+      }}
+      attribution={source.attribution}
+      opacity={source.opacity ?? 1}
+      maxZoom={source.maxZoom}
+    />
+  ) : (
+    <TileLayer
+      url={source.url}
+      attribution={source.attribution}
+      opacity={source.opacity ?? 1}
+      maxZoom={source.maxZoom}
+    />
+  );
+
+const labelFir = (feature: Feature, layer: Layer) => {
+  const name = featureName(feature);
+  if (name) layer.bindTooltip(name, { sticky: true });
+};
+
+// Layer control with the configured base maps and overlays (see
+// lib/mapLayers.ts), the day/night terminator and FIR boundaries
+const MapLayers: React.FC<Props> = ({ firs = null, time }) => {
+  const layers = useMapLayers();
+  const { t } = useI18n();
+  // The terminator moves a quarter of a degree a minute
+  const now = useNow(60000);
+  const sunTime = time ?? now;
+  const sun = sunTime === null ? null : subsolarPoint(sunTime);
+
+  // FIR boundaries aren't shipped with the app (see useBorders); without
+  // them there is nothing to toggle, so the overlay is left out
+  const showFirs = firs !== null && firs.features.length > 0;
+
+  if (!layers) return null;
+
+  return (
+    <LayersControl position="topleft">
+      {layers.baseMaps.map((source, i) => (
+        <LayersControl.BaseLayer
+          key={source.name}
+          name={source.name}
+          checked={i === 0}
+        >
+          <SourceLayer source={source} />
+        </LayersControl.BaseLayer>
+      ))}
+
+      {layers.overlays.map((source) => (
+        <LayersControl.Overlay
+          key={source.name}
+          name={source.name}
+          checked={source.enabled ?? false}
+        >
+          <SourceLayer source={source} />
+        </LayersControl.Overlay>
+      ))}
+
+      {sunTime !== null && sun && (
+        <LayersControl.Overlay name={t("map.dayNight")}>
+          <LayerGroup>
+            <Polygon
+              positions={nightPolygon(sunTime).map((p) => [p.lat, p.lon])}
+              pathOptions={{
+                stroke: false,
+                fillColor: "#0f172a",
+                fillOpacity: 0.35,
+                interactive: false,
+              }}
+            />
+            <CircleMarker
+              center={[sun.lat, sun.lon]}
+              radius={8}
+              pathOptions={{
+                color: "#f59e0b",
+                fillColor: "#fde047",
+                fillOpacity: 1,
+                weight: 2,
+              }}
+            >
+              <Tooltip>{t("map.sun")}</Tooltip>
+            </CircleMarker>
+          </LayerGroup>
+        </LayersControl.Overlay>
+      )}
+
+      {showFirs && (
+        <LayersControl.Overlay name={t("map.firs")}>
+          <GeoJSON
+            data={firs}
+            style={{
+              color: "#c084fc",
+              weight: 1,
+              dashArray: "4 4",
+              fill: false,
+            }}
+            onEachFeature={labelFir}
+          />
+        </LayersControl.Overlay>
+      )}
+    </LayersControl>
+  );
+};
+
+export default MapLayers;
@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import { Pause, Play, Radio, SkipBack } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { REPLAY_SPEEDS, Replay } from "@/hooks/useReplay";
+
+type Props = {
+  replay: Replay;
+  // Where the replayed track came from, e.g. "Recorded flight"
+  sourceLabel: string;
+  hasTrack: boolean;
+  onExit: () => void;
+};
+
+const ReplayControls: React.FC<Props> = ({
+  replay,
+  sourceLabel,
+  hasTrack,
+  onExit,
+}) => {
+  const { t, time } = useI18n();
+  const formatUtc = (unixSeconds: number) =>
+    t("time.utc", {
+      time: time(unixSeconds * 1000, {
+        timeZone: "UTC",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hourCycle: "h23",
+      }),
+    });
+
+  return (
+    <div className="mt-4 bg-black/20 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <p className="text-sm text-gray-300">
+          {t("replay.source")}{" "}
+          <span className="font-semibold">{sourceLabel}</span>
+        </p>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 text-sm text-green-200 hover:text-white"
+        >
+          <Radio className="w-4 h-4" />
+          {t("replay.backToLive")}
+        </button>
+      </div>
+
+      {hasTrack ? (
+        <>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={replay.rewind}
+              aria-label={t("replay.rewind")}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20"
+            >
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button
+              onClick={replay.playing ? replay.pause : replay.play}
+              aria-label={t(replay.playing ? "replay.pause" : "replay.play")}
+              className="p-2 rounded-full bg-green-600 hover:bg-green-500"
+            >
+              {replay.playing ? (
+                <Pause className="w-4 h-4" />
+              ) : (
+                <Play className="w-4 h-4" />
+              )}
+            </button>
+            <input
+              type="range"
+              min={replay.start}
+              max={replay.end}
+              step={1}
+              value={replay.time}
+              onChange={(e) => replay.seek(Number(e.target.value))}
+              className="flex-1 accent-green-400"
+              aria-label={t("replay.position")}
+            />
+            <span className="text-sm font-mono w-28 text-right">
+              {formatUtc(replay.time)}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs text-gray-400">{t("replay.speed")}</span>
+            {REPLAY_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                onClick={() => replay.setSpeed(speed)}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  replay.speed === speed
+                    ? "bg-green-600"
+                    : "bg-white/10 hover:bg-white/20"
+                }`}
+              >
+                {t("replay.speedFactor", { value: speed })}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">{t("replay.noTrack")}</p>
+      )}
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import { Download, Upload } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { TRACK_FILE_FORMATS } from "@/lib/trackFiles";
+
+const FORMAT_LABELS = { gpx: "GPX", kml: "KML", geojson: "GeoJSON" };
+
+type Props = {
+  // Query string for /api/flight/export, e.g. "flight=BG202&demo=1"
+  flightQuery: string;
+  importError: string | null;
+  routeImported: boolean;
+  onImport: (file: File) => void;
+  onResetRoute: () => void;
+};
+
+const TrackFiles: React.FC<Props> = ({
+  flightQuery,
+  importError,
+  routeImported,
+  onImport,
+  onResetRoute,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-4 space-y-1">
+      <div className="flex items-center justify-between flex-wrap gap-2 text-sm">
+        <div className="flex items-center gap-2 text-gray-300">
+          <Download className="w-4 h-4" />
+          {t("files.export")}
+          {TRACK_FILE_FORMATS.map((format) => (
+            <a
+              key={format}
+              href={`/api/flight/export?${flightQuery}&format=${format}`}
+              download
+              className="text-green-200 hover:text-white underline"
+            >
+              {FORMAT_LABELS[format]}
+            </a>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          {routeImported && (
+            <button
+              onClick={onResetRoute}
+              className="text-yellow-300 hover:text-white"
+            >
+              {t("files.resetRoute")}
+            </button>
+          )}
+          <label className="flex items-center gap-1 text-green-200 hover:text-white cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {t("files.import")}
+            <input
+              type="file"
+              accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      {importError && <p className="text-sm text-yellow-300">{importError}</p>}
+    </div>
+  );
+};
+
+export default TrackFiles;
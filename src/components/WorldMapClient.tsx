@@ -1,38 +1,87 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect } from "react";
 import {
   MapContainer,
-  TileLayer,
   ZoomControl,
   GeoJSON,
   Polyline,
   CircleMarker,
+  Tooltip,
   useMap,
 } from "react-leaflet";
+import type { PathOptions } from "leaflet";
+import { useBorders } from "@/hooks/useBorders";
+import { useI18n } from "@/hooks/useI18n";
+import type { Feature } from "geojson";
+import { featureName } from "@/lib/regions";
+import AircraftMarker, { AircraftInfo } from "./AircraftMarker";
+import MapLayers from "./MapLayers";
 // Leaflet CSS is loaded in app/layout.tsx via CDN link to avoid Next.js global CSS import rules
 
 type LatLng = [number, number];
 
+export type MapRoute = {
+  coords: LatLng[]; // ordered path coordinates (lat, lon)
+  color?: string;
+};
+
+export type MapPlane = {
+  position: LatLng; // plane position (lat, lon)
+  label?: string; // shown as a permanent tooltip
+  estimated?: boolean; // dead-reckoned rather than reported
+  heading?: number | null; // degrees clockwise from north
+  info?: AircraftInfo; // shown on hover (or click, for labelled planes)
+};
+
+export type MapRunway = {
+  ends: [LatLng, LatLng];
+  label: string; // e.g. "RWY 14/32"
+  active?: boolean; // the one being landed on
+};
+
+export type MapArrival = {
+  runways: MapRunway[];
+  approachPath: LatLng[]; // final approach fix to threshold
+  focus: LatLng[]; // zoomed to instead of the whole route
+};
+
 type Props = {
   center?: LatLng;
   zoom?: number;
   height?: string | number;
   pathCoords?: LatLng[]; // ordered path coordinates (lat, lon)
   planePosition?: LatLng | null; // current plane position (lat, lon)
+  // Set when planePosition is dead-reckoned from this last reported fix
+  lastKnownPosition?: LatLng | null;
+  planeHeading?: number | null; // degrees clockwise from north
+  planeInfo?: AircraftInfo;
+  flownCoords?: LatLng[]; // positions actually flown so far, oldest first
+  cursorPosition?: LatLng | null; // point hovered on the profile chart
+  routes?: MapRoute[]; // additional routes, e.g. for the overview map
+  planes?: MapPlane[]; // additional planes, e.g. for the overview map
+  highlightCountry?: string | null; // country the plane is over
+  arrival?: MapArrival | null; // terminal area view near the destination
+  time?: number; // unix ms shown by the day/night overlay, e.g. in a replay
 };
 
-function FitBounds({ coords }: { coords?: LatLng[] }) {
+function FitBounds({
+  coords,
+  maxZoom,
+}: {
+  coords?: LatLng[];
+  maxZoom?: number;
+}) {
   const map = useMap();
 
   useEffect(() => {
     if (!coords || coords.length === 0) return;
     try {
-      map.fitBounds(coords as any, { padding: [40, 40] });
-    } catch (e) {
+      map.fitBounds(coords, { padding: [40, 40], maxZoom });
+    } catch {
       // ignore
     }
-  }, [coords, map]);
+  }, [coords, map, maxZoom]);
 
   return null;
 }
@@ -43,39 +92,46 @@ const WorldMapClient: React.FC<Props> = ({
   height = "60vh",
   pathCoords = [],
   planePosition = null,
+  lastKnownPosition = null,
+  planeHeading = null,
+  planeInfo,
+  flownCoords = [],
+  cursorPosition = null,
+  routes = [],
+  planes = [],
+  highlightCountry = null,
+  arrival = null,
+  time,
 }) => {
-  const [geo, setGeo] = useState<any>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { countries, firs, error } = useBorders();
+  const { t } = useI18n();
 
-  useEffect(() => {
-    let mounted = true;
-    const url =
-      "https://raw.githubusercontent.com/datasets/geo-countries/master/data/countries.geojson";
-
-    fetch(url)
-      .then((res) => {
-        if (!res.ok) throw new Error("Failed to load borders");
-        return res.json();
-      })
-      .then((data) => {
-        if (mounted) setGeo(data);
-      })
-      .catch((err) => {
-        console.error(err);
-        if (mounted) setError("Could not load country borders");
-      });
-
-    return () => {
-      mounted = false;
-    };
-  }, []);
-
-  const style = {
-    color: "#31708f",
-    weight: 1,
-    fill: false,
-    opacity: 0.8,
-  } as any;
+  const style = (feature?: Feature): PathOptions =>
+    feature && highlightCountry && featureName(feature) === highlightCountry
+      ? {
+          color: "#4ade80",
+          weight: 2,
+          fill: true,
+          fillColor: "#4ade80",
+          fillOpacity: 0.2,
+          opacity: 1,
+        }
+      : { color: "#31708f", weight: 1, fill: false, opacity: 0.8 };
+
+  const allRoutes: MapRoute[] =
+    pathCoords.length > 0 ? [{ coords: pathCoords }, ...routes] : routes;
+  const allPlanes: MapPlane[] = planePosition
+    ? [
+        {
+          position: planePosition,
+          estimated: lastKnownPosition !== null,
+          heading: planeHeading,
+          info: planeInfo,
+        },
+        ...planes,
+      ]
+    : planes;
+  const boundsCoords = allRoutes.flatMap((r) => r.coords);
 
   return (
     <div style={{ width: "100%", height }}>
@@ -87,37 +143,117 @@ const WorldMapClient: React.FC<Props> = ({
         scrollWheelZoom={true}
       >
         <ZoomControl position="topright" />
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
+        <MapLayers firs={firs} time={time} />
+
+        {countries && <GeoJSON data={countries} style={style} />}
+
+        {/* Draw provided paths as polylines (mock or real) */}
+        {allRoutes.map((route, i) =>
+          route.coords.length > 0 ? (
+            <React.Fragment key={i}>
+              <Polyline
+                positions={route.coords}
+                pathOptions={{
+                  color: route.color ?? "#4ade80",
+                  weight: 4,
+                  dashArray: "6 6",
+                }}
+              />
+              <Polyline
+                positions={route.coords}
+                pathOptions={{ color: "rgba(255,255,255,0.2)", weight: 2 }}
+              />
+            </React.Fragment>
+          ) : null
+        )}
+        {arrival ? (
+          <FitBounds coords={arrival.focus} maxZoom={14} />
+        ) : (
+          boundsCoords.length > 0 && <FitBounds coords={boundsCoords} />
+        )}
+
+        {/* Runways and the final approach onto the landing one */}
+        {arrival && (
+          <>
+            {arrival.runways.map((runway) => (
+              <Polyline
+                key={runway.label}
+                positions={runway.ends}
+                pathOptions={{
+                  color: runway.active ? "#ffffff" : "#9ca3af",
+                  weight: 8,
+                  opacity: 0.9,
+                }}
+              >
+                <Tooltip permanent={runway.active} direction="right">
+                  {runway.label}
+                </Tooltip>
+              </Polyline>
+            ))}
+            {arrival.approachPath.length > 1 && (
+              <Polyline
+                positions={arrival.approachPath}
+                pathOptions={{ color: "#38bdf8", weight: 3, dashArray: "8 6" }}
+              />
+            )}
+          </>
+        )}
 
-        {geo && <GeoJSON data={geo} style={style} />}
+        {/* Track actually flown, drawn over the planned route */}
+        {flownCoords.length > 1 && (
+          <Polyline
+            positions={flownCoords}
+            pathOptions={{ color: "#fbbf24", weight: 3, opacity: 0.9 }}
+          />
+        )}
 
-        {/* Draw provided path as polyline (mock or real) */}
-        {pathCoords && pathCoords.length > 0 && (
+        {/* Last reported fix and the dead-reckoned track from it */}
+        {lastKnownPosition && planePosition && (
           <>
             <Polyline
-              positions={pathCoords}
-              pathOptions={{ color: "#4ade80", weight: 4, dashArray: "6 6" }}
-            />
-            <Polyline
-              positions={pathCoords}
-              pathOptions={{ color: "rgba(255,255,255,0.2)", weight: 2 }}
+              positions={[lastKnownPosition, planePosition]}
+              pathOptions={{ color: "#9ca3af", weight: 2, dashArray: "4 6" }}
             />
-            <FitBounds coords={pathCoords} />
+            <CircleMarker
+              center={lastKnownPosition}
+              radius={4}
+              pathOptions={{
+                color: "#9ca3af",
+                fillColor: "#9ca3af",
+                weight: 1,
+              }}
+            >
+              <Tooltip>{t("map.lastReported")}</Tooltip>
+            </CircleMarker>
           </>
         )}
 
-        {/* Plane marker (if available) */}
-        {planePosition && (
+        {/* Point picked on the profile chart */}
+        {cursorPosition && (
           <CircleMarker
-            center={planePosition}
-            radius={8}
-            pathOptions={{ color: "#fbbf24", fillColor: "#f59e0b", weight: 2 }}
+            center={cursorPosition}
+            radius={6}
+            pathOptions={{
+              color: "#ffffff",
+              fillColor: "#fbbf24",
+              fillOpacity: 1,
+              weight: 2,
+            }}
           />
         )}
 
+        {/* Plane markers (if available) */}
+        {allPlanes.map((plane, i) => (
+          <AircraftMarker
+            key={plane.label ?? i}
+            position={plane.position}
+            heading={plane.heading}
+            label={plane.label}
+            estimated={plane.estimated}
+            info={plane.info}
+          />
+        ))}
+
         {error && (
           <div style={{ position: "absolute", left: 8, top: 8, zIndex: 9999 }}>
             <small style={{ color: "#fbbf24" }}>{error}</small>
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { BorderCollection } from "@/lib/regions";
+
+// Country borders generated by scripts/build-borders.mjs, and optional
+// flight information region boundaries dropped in next to them
+const COUNTRIES_URL = "/geo/countries.geojson";
+const FIRS_URL = "/geo/firs.geojson";
+
+// Each file is fetched once and shared by every map and panel on the page
+const requests = new Map<string, Promise<BorderCollection | null>>();
+
+const load = (url: string, optional: boolean) => {
+  let request = requests.get(url);
+  if (!request) {
+    request = fetch(url).then((res) => {
+      if (res.status === 404 && optional) return null;
+      if (!res.ok) throw new Error(`Failed to load ${url}`);
+      return res.json();
+    });
+    // Let a later mount try again after a failure
+    request.catch(() => requests.delete(url));
+    requests.set(url, request);
+  }
+  return request;
+};
+
+export const useBorders = () => {
+  const [countries, setCountries] = useState<BorderCollection | null>(null);
+  const [firs, setFirs] = useState<BorderCollection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    load(COUNTRIES_URL, false)
+      .then((data) => {
+        if (mounted) setCountries(data);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (mounted) setError("Could not load country borders");
+      });
+
+    load(FIRS_URL, true)
+      .then((data) => {
+        if (mounted) setFirs(data);
+      })
+      .catch((err) => console.error(err));
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return { countries, firs, error };
+};
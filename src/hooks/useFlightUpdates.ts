@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useEffectEvent } from "react";
+import type { FlightResponse } from "@/lib/flightTypes";
+
+// Polling interval while the event stream is unavailable
+const POLL_INTERVAL_MS = 30000;
+
+type Handlers = {
+  onStatus: (status: FlightResponse) => void;
+  onError: (message: string) => void;
+};
+
+// Delivers the flight's status as the server pushes it over
+// /api/flight/stream. While the stream is down (or the browser has no
+// EventSource) it polls /api/flight instead, until events flow again.
+export const useFlightUpdates = (query: string, handlers: Handlers) => {
+  const onStatus = useEffectEvent(handlers.onStatus);
+  const onError = useEffectEvent(handlers.onError);
+
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/flight?${query}`, {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        // 503s still carry a status explaining what went wrong
+        if (!response.ok && !("source" in data)) {
+          throw new Error(data.message || "Failed to fetch flight data");
+        }
+        onStatus(data);
+      } catch (err) {
+        console.error("Error fetching flight data:", err);
+        onError(err instanceof Error ? err.message : "Unknown error occurred");
+      }
+    };
+
+    const startPolling = () => {
+      if (interval) return;
+      poll();
+      interval = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (interval) clearInterval(interval);
+      interval = null;
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
+
+    // EventSource reconnects by itself, resuming from the last event id
+    const source = new EventSource(`/api/flight/stream?${query}`);
+    source.addEventListener("status", (event) => {
+      stopPolling();
+      onStatus(JSON.parse(event.data));
+    });
+    source.onerror = startPolling;
+
+    return () => {
+      source.close();
+      stopPolling();
+    };
+  }, [query]);
+};
@@ -0,0 +1,10 @@
+"use client";
+
+import { createContext, use } from "react";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/config";
+import { getTranslator } from "@/lib/i18n";
+
+// Locale of the current page, provided by app/[lang]/layout.tsx
+export const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export const useI18n = () => getTranslator(use(LocaleContext));
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DEFAULT_MAP_LAYERS, MapLayersConfig } from "@/lib/mapLayers";
+
+// Fetched once and shared by every map on the page
+let request: Promise<MapLayersConfig> | null = null;
+
+const load = () => {
+  if (!request) {
+    request = fetch("/api/map/layers").then((res) => {
+      if (!res.ok) throw new Error("Failed to load map layers");
+      return res.json();
+    });
+    // Let a later mount try again after a failure
+    request.catch(() => {
+      request = null;
+    });
+  }
+  return request;
+};
+
+// Null until loaded, so a configured local tile server is used from the
+// start rather than after a round of public tiles
+export const useMapLayers = () => {
+  const [layers, setLayers] = useState<MapLayersConfig | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    load()
+      .then((data) => {
+        if (mounted) setLayers(data);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (mounted) setLayers(DEFAULT_MAP_LAYERS);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return layers;
+};
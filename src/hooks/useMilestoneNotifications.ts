@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { describeMilestone } from "@/lib/i18n/describe";
+import type { Milestone, MilestoneKind } from "@/lib/milestones";
+import { useI18n } from "./useI18n";
+
+// Opt-in desktop notifications (Notification API) for the milestones
+// supporters care most about. They are shown by this page, so they only
+// arrive while it is open in some tab: there is no service worker or push
+// subscription. Webhooks (lib/webhooks.ts) are the way to hear about
+// milestones with no page open.
+const NOTIFY_KINDS: MilestoneKind[] = [
+  "takeoff",
+  "destination-country",
+  "landing",
+];
+// Milestones older than this when they first show up (e.g. from the track
+// loaded on page open) are history, not news
+const MAX_AGE_S = 10 * 60;
+const STORAGE_KEY = "milestone-notifications";
+
+export type NotificationStatus =
+  | "unsupported"
+  | "default" // not asked yet
+  | "denied"
+  | "on"
+  | "off";
+
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+};
+
+const getStatus = (): NotificationStatus => {
+  if (!("Notification" in window)) return "unsupported";
+  if (Notification.permission !== "granted") return Notification.permission;
+  return localStorage.getItem(STORAGE_KEY) === "on" ? "on" : "off";
+};
+
+const setPreference = (value: "on" | "off") => {
+  localStorage.setItem(STORAGE_KEY, value);
+  listeners.forEach((listener) => listener());
+};
+
+export const useMilestoneNotifications = (
+  milestones: Milestone[],
+  flightNumber: string,
+  // False while replaying, so old milestones don't notify
+  active: boolean
+) => {
+  const status = useSyncExternalStore(
+    subscribe,
+    getStatus,
+    () => "unsupported" as const
+  );
+  const seen = useRef(new Set<string>());
+  const i18n = useI18n();
+
+  useEffect(() => {
+    const now = Date.now() / 1000;
+    for (const m of milestones) {
+      if (seen.current.has(m.id)) continue;
+      seen.current.add(m.id);
+
+      if (
+        !active ||
+        status !== "on" ||
+        !NOTIFY_KINDS.includes(m.kind) ||
+        now - m.time > MAX_AGE_S
+      ) {
+        continue;
+      }
+      try {
+        new Notification(`${flightNumber}: ${describeMilestone(i18n, m)}`, {
+          tag: m.id,
+        });
+      } catch (err) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.error("Could not show notification:", err);
+      }
+    }
+  }, [milestones, flightNumber, active, status, i18n]);
+
+  const enable = async () => {
+    if ((await Notification.requestPermission()) === "granted") {
+      setPreference("on");
+    } else {
+      listeners.forEach((listener) => listener());
+    }
+  };
+
+  return { status, enable, disable: () => setPreference("off") };
+};
@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Current time (unix ms), refreshed every `intervalMs`, for values that age
+// such as "last seen 3 min ago". Null until mounted, so server and client
+// renders agree.
+export const useNow = (intervalMs: number) => {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0);
+    const interval = setInterval(tick, intervalMs);
+    return () => {
+      clearTimeout(first);
+      clearInterval(interval);
+    };
+  }, [intervalMs]);
+
+  return now;
+};
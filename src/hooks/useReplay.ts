@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { TrackSample } from "@/lib/flightTypes";
+import { sampleAt } from "@/lib/track";
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+// How often the replay clock advances while playing
+const TICK_MS = 100;
+
+// Plays back a recorded track: a clock over the samples' time range that can
+// be paused, scrubbed and run faster than real time.
+export const useReplay = (samples: TrackSample[]) => {
+  const start = samples[0]?.time ?? 0;
+  const end = samples[samples.length - 1]?.time ?? 0;
+
+  // null means "at the start", so a newly loaded track rewinds itself
+  const [time, setTime] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+
+  const current = Math.min(Math.max(time ?? start, start), end);
+  const isPlaying = playing && current < end;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTime((t) => Math.min((t ?? start) + elapsed * speed, end));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, start, end]);
+
+  return {
+    start,
+    end,
+    time: current,
+    sample: sampleAt(samples, current),
+    playing: isPlaying,
+    speed,
+    setSpeed,
+    play: () => {
+      // Playing again from the end starts over
+      if (current >= end) setTime(start);
+      setPlaying(true);
+    },
+    pause: () => setPlaying(false),
+    seek: (t: number) => setTime(t),
+    rewind: () => {
+      setPlaying(false);
+      setTime(null);
+    },
+  };
+};
+
+export type Replay = ReturnType<typeof useReplay>;
@@ -0,0 +1,18 @@
+// Runs once when the server starts: fail fast on a broken flight or map
+// layers config or provider setup instead of on the first page view, then
+// start following the tracked flights in the background.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { loadMapLayers, loadTrackedFlights } = await import("./lib/config");
+    const { getProviders } = await import("./lib/providers");
+    loadTrackedFlights();
+    loadMapLayers();
+    getProviders();
+
+    // Not while `next build` prerenders pages
+    if (process.env.NEXT_PHASE !== "phase-production-build") {
+      const { startFlightPoller } = await import("./lib/flightPoller");
+      startFlightPoller();
+    }
+  }
+}
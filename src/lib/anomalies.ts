@@ -0,0 +1,252 @@
+import type { TrackSample } from "./flightTypes";
+import { bearing, distanceKm, projectOntoRoute, Route } from "./geo";
+import { metresToFeet } from "./units";
+
+// Unusual events in a flight's recorded positions, worth alerting on at
+// once. Like milestones, detection only looks at the samples, so the page
+// and the server agree on what happened.
+
+export type AnomalyKind =
+  "emergency-squawk" | "diversion" | "holding" | "altitude-loss";
+
+export type AnomalySeverity = "warning" | "critical";
+
+// What set the anomaly off; a diversion has two possible causes
+export type AnomalyReason =
+  | "emergency-squawk"
+  | "off-route"
+  | "heading-away"
+  | "holding"
+  | "altitude-loss";
+
+export interface Anomaly {
+  id: string; // stable across recomputation, e.g. "holding-1766580000"
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  title: string;
+  detail: string;
+  reason: AnomalyReason;
+  // Numbers behind the detail, so the page can word it in any language
+  values: Record<string, number | string>;
+  start: number; // unix seconds
+  // When the condition cleared; null while it still holds at the last sample
+  end: number | null;
+  lat: number;
+  lon: number;
+}
+
+export const EMERGENCY_SQUAWKS: Record<string, string> = {
+  "7500": "Unlawful interference",
+  "7600": "Radio failure",
+  "7700": "General emergency",
+};
+
+// Further off the planned route than airway deviations and weather
+// avoidance usually take a flight
+const DIVERSION_CROSS_TRACK_KM = 150;
+// Flying away from the destination for this long
+const HEADING_AWAY_DEG = 90;
+const HEADING_AWAY_MIN_S = 10 * 60;
+// Departures and approaches turn every which way
+const TERMINAL_AREA_KM = 100;
+
+// A hold (or orbit) turns through a full circle within a few minutes; the
+// threshold is a little under 360° as samples can miss part of a turn
+const HOLDING_WINDOW_S = 12 * 60;
+const HOLDING_TURN_DEG = 330;
+const HOLDING_CLEAR_DEG = 90;
+// Heading changes across longer gaps say nothing about turns
+const MAX_TURN_GAP_S = 2 * 60;
+
+// About 5,000 ft/min, well beyond a normal descent, measured over a minute
+// so a single bad altitude report doesn't trigger it
+const ALTITUDE_LOSS_WINDOW_S = 60;
+const ALTITUDE_LOSS_MAX_GAP_S = 3 * 60;
+const ALTITUDE_LOSS_RATE_MS = 25;
+const ALTITUDE_LOSS_MIN_ALTITUDE_M = 3000;
+
+// Signed difference between two headings, -180..180
+const turn = (from: number, to: number) =>
+  ((((to - from) % 360) + 540) % 360) - 180;
+
+type Condition = Pick<
+  Anomaly,
+  "severity" | "title" | "detail" | "reason" | "values"
+>;
+
+export const detectAnomalies = (
+  samples: TrackSample[],
+  route: Route
+): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const ongoing = new Map<AnomalyKind, Anomaly>();
+  const origin = route.points[0];
+  const destination = route.points[route.points.length - 1];
+
+  // Opens an anomaly when its condition starts and closes it when it clears
+  const update = (
+    kind: AnomalyKind,
+    sample: TrackSample,
+    condition: Condition | null
+  ) => {
+    const current = ongoing.get(kind);
+    if (condition && !current) {
+      const anomaly: Anomaly = {
+        id: `${kind}-${sample.time}`,
+        kind,
+        ...condition,
+        start: sample.time,
+        end: null,
+        lat: sample.lat,
+        lon: sample.lon,
+      };
+      anomalies.push(anomaly);
+      ongoing.set(kind, anomaly);
+    } else if (!condition && current) {
+      current.end = sample.time;
+      ongoing.delete(kind);
+    }
+  };
+
+  let headingAwaySince: number | null = null;
+  // Signed heading change up to each sample, for the holding window
+  const turned: number[] = [];
+  let windowStart = 0;
+  let lossFrom = 0;
+
+  samples.forEach((sample, i) => {
+    const previous = samples[i - 1];
+    const airborne = !sample.onGround;
+
+    // Emergency codes. A report without a squawk changes nothing.
+    if (typeof sample.squawk === "string") {
+      const meaning = EMERGENCY_SQUAWKS[sample.squawk];
+      update(
+        "emergency-squawk",
+        sample,
+        meaning
+          ? {
+              severity: "critical",
+              title: `Emergency squawk ${sample.squawk}`,
+              detail: meaning,
+              reason: "emergency-squawk",
+              values: { squawk: sample.squawk },
+            }
+          : null
+      );
+    }
+
+    // Diversion: far off the route, or heading away from the destination.
+    // Measured against the nearest leg whatever the progress so far.
+    const position = projectOntoRoute(route, sample);
+    const toDestinationKm = distanceKm(sample, destination);
+    const enRoute =
+      airborne &&
+      toDestinationKm > TERMINAL_AREA_KM &&
+      distanceKm(sample, origin) > TERMINAL_AREA_KM;
+    const headingAway =
+      enRoute &&
+      sample.heading !== null &&
+      Math.abs(turn(sample.heading, bearing(sample, destination))) >
+        HEADING_AWAY_DEG;
+    headingAwaySince = headingAway ? (headingAwaySince ?? sample.time) : null;
+
+    if (toDestinationKm <= TERMINAL_AREA_KM) {
+      update("diversion", sample, null);
+    } else if (enRoute) {
+      const offRoute = position.crossKm > DIVERSION_CROSS_TRACK_KM;
+      const awayFor =
+        headingAwaySince === null ? 0 : sample.time - headingAwaySince;
+      update(
+        "diversion",
+        sample,
+        offRoute || awayFor >= HEADING_AWAY_MIN_S
+          ? {
+              severity: "warning",
+              title: "Possible diversion",
+              ...(offRoute
+                ? {
+                    detail: `${Math.round(position.crossKm)} km off the planned route`,
+                    reason: "off-route",
+                    values: { km: Math.round(position.crossKm) },
+                  }
+                : {
+                    detail: `Heading away from the destination for ${Math.round(awayFor / 60)} min`,
+                    reason: "heading-away",
+                    values: { minutes: Math.round(awayFor / 60) },
+                  }),
+            }
+          : null
+      );
+    }
+
+    // Holding: turning through a full circle within the window
+    const step =
+      airborne &&
+      previous &&
+      !previous.onGround &&
+      previous.heading !== null &&
+      sample.heading !== null &&
+      sample.time - previous.time <= MAX_TURN_GAP_S
+        ? turn(previous.heading, sample.heading)
+        : 0;
+    turned.push((turned[i - 1] ?? 0) + step);
+    while (sample.time - samples[windowStart].time > HOLDING_WINDOW_S) {
+      windowStart += 1;
+    }
+    const windowTurn = Math.abs(turned[i] - turned[windowStart]);
+    update(
+      "holding",
+      sample,
+      airborne &&
+        windowTurn >=
+          (ongoing.has("holding") ? HOLDING_CLEAR_DEG : HOLDING_TURN_DEG)
+        ? {
+            severity: "warning",
+            title: "Holding pattern",
+            detail: "Circling instead of following the route",
+            reason: "holding",
+            values: {},
+          }
+        : null
+    );
+
+    // Sudden altitude loss, against the last sample a minute or more back
+    while (
+      lossFrom + 1 < i &&
+      sample.time - samples[lossFrom + 1].time >= ALTITUDE_LOSS_WINDOW_S
+    ) {
+      lossFrom += 1;
+    }
+    const earlier = samples[lossFrom];
+    const seconds = sample.time - earlier.time;
+    const lost =
+      airborne &&
+      !earlier.onGround &&
+      earlier.altitude !== null &&
+      sample.altitude !== null &&
+      earlier.altitude >= ALTITUDE_LOSS_MIN_ALTITUDE_M &&
+      seconds >= ALTITUDE_LOSS_WINDOW_S &&
+      seconds <= ALTITUDE_LOSS_MAX_GAP_S
+        ? earlier.altitude - sample.altitude
+        : 0;
+    update(
+      "altitude-loss",
+      sample,
+      lost / Math.max(seconds, 1) >= ALTITUDE_LOSS_RATE_MS
+        ? {
+            severity: "critical",
+            title: "Rapid descent",
+            detail: `Lost ${Math.round(metresToFeet(lost))} ft in ${Math.round(seconds)} s`,
+            reason: "altitude-loss",
+            values: {
+              feet: Math.round(metresToFeet(lost)),
+              seconds: Math.round(seconds),
+            },
+          }
+        : null
+    );
+  });
+
+  return anomalies.sort((a, b) => a.start - b.start);
+};
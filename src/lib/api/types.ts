@@ -0,0 +1,116 @@
+import type { EtaConfidence } from "../eta";
+import type { FlightIdentity, FlightSource } from "../flightTypes";
+import type { Freshness } from "../freshness";
+import type { MilestoneKind } from "../milestones";
+
+// Response bodies of the public /api/v1 routes. `npm run api:openapi`
+// generates the OpenAPI document from this file, with each field's comment
+// as its description, so comments here are written for API users.
+// Times are ISO 8601 strings; altitudes are in feet and speeds in mph, as
+// shown on the flight page.
+
+export interface ApiError {
+  message: string;
+}
+
+export interface ApiAirport {
+  name: string;
+  code: string | null; // IATA or ICAO code
+  timeZone: string | null; // IANA time zone, e.g. "Asia/Dhaka"
+  lat: number;
+  lon: number;
+}
+
+export interface ApiWaypoint {
+  name: string;
+  region: string; // country the waypoint is in
+  lat: number;
+  lon: number;
+}
+
+export interface ApiFlight {
+  id: string; // identifies the flight in the other routes, e.g. "BG202"
+  flightNumber: string;
+  operator: string; // airline name
+  callsigns: string[]; // ATC callsigns the aircraft may broadcast
+  passengerName: string;
+  origin: ApiAirport;
+  destination: ApiAirport;
+  waypoints: ApiWaypoint[]; // planned route, in order
+  scheduledArrival: string | null;
+}
+
+export interface ApiFlightList {
+  flights: ApiFlight[];
+}
+
+export interface ApiPosition {
+  time: string; // when the position was reported
+  lat: number;
+  lon: number;
+  altitude: number | null; // barometric altitude, feet
+  speed: number | null; // ground speed, mph
+  heading: number | null; // track over the ground, degrees clockwise from north
+  verticalRate: number | null; // feet per minute, positive when climbing
+  onGround: boolean;
+  squawk: string | null; // transponder code, e.g. "7700"
+}
+
+export interface ApiEta {
+  // "live" from the position, "schedule" from the timetable, "arrived" once
+  // the aircraft is on the ground at the destination
+  basis: "live" | "schedule" | "arrived";
+  arrivalTime: string;
+  remainingSeconds: number;
+  confidence: EtaConfidence;
+  delaySeconds: number | null; // positive when later than scheduled
+}
+
+export interface ApiMilestone {
+  id: string; // stable across requests
+  kind: MilestoneKind;
+  time: string;
+  title: string; // English description, e.g. "Entered Bangladesh airspace"
+  country: string | null; // country entered, for the country milestones
+  lat: number;
+  lon: number;
+}
+
+export interface ApiFlightStatus {
+  id: string;
+  source: FlightSource; // data provider the status came from
+  fetchedAt: string | null; // when the data provider was last read
+  stale: boolean; // the provider failed and an earlier reading is served
+  message: string | null; // why there is no position, if there isn't one
+  callsign: string | null; // callsign the aircraft is broadcasting
+  // "unconfirmed" when the aircraft is only a guess from its airline
+  identity: FlightIdentity | null;
+  isLive: boolean; // a position is available
+  position: ApiPosition | null;
+  // Country the aircraft is over, as on the flight page; null over the sea
+  // or without a position
+  region: string | null;
+  positionAge: number | null; // seconds between the report and fetchedAt
+  // "stale" after a minute without a new position, "lost" after five
+  freshness: Freshness | null;
+  progress: number; // share of the planned route flown, 0-1
+  alongTrackKm: number | null; // distance flown along the planned route
+  crossTrackKm: number | null; // distance off the planned route
+  eta: ApiEta | null;
+  milestones: ApiMilestone[]; // oldest first
+}
+
+export interface ApiTrackPoint {
+  time: string;
+  lat: number;
+  lon: number;
+  altitude: number | null; // feet
+  speed: number | null; // mph
+  heading: number | null; // degrees clockwise from north
+  onGround: boolean;
+}
+
+export interface ApiTrack {
+  id: string;
+  points: ApiTrackPoint[]; // oldest first
+}
@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { loadCountryBorders } from "../borders";
+import type { EtaEstimate } from "../eta";
+import {
+  getFlightStatus,
+  getFlightTrack,
+  getSimulatedStatus,
+} from "../flightFeed";
+import { summarizeFlight } from "../flightSummary";
+import type { TrackSample } from "../flightTypes";
+import { getFreshness } from "../freshness";
+import { buildRoute } from "../geo";
+import { detectMilestones, Milestone } from "../milestones";
+import { findRegion } from "../regions";
+import type { SimulationRequest } from "../simulator";
+import {
+  Airport,
+  getDestinationCountry,
+  getFlightId,
+  TrackedFlight,
+} from "../trackedFlight";
+import { metresToFeet, msToFpm, msToMph } from "../units";
+import type {
+  ApiAirport,
+  ApiEta,
+  ApiFlight,
+  ApiFlightStatus,
+  ApiMilestone,
+  ApiTrack,
+  ApiTrackPoint,
+} from "./types";
+
+// Builds the public /api/v1 responses (see ./types.ts) from the tracker's
+// own data, and the CORS and ETag handling every v1 route shares.
+
+const toIsoTime = (unixSeconds: number) =>
+  new Date(unixSeconds * 1000).toISOString();
+
+const round = (value: number | null) =>
+  value === null ? null : Math.round(value);
+
+const toApiAirport = (airport: Airport): ApiAirport => ({
+  name: airport.name,
+  code: airport.code ?? null,
+  timeZone: airport.timeZone ?? null,
+  lat: airport.lat,
+  lon: airport.lon,
+});
+
+export const toApiFlight = (flight: TrackedFlight): ApiFlight => ({
+  id: getFlightId(flight),
+  flightNumber: flight.flightNumber,
+  operator: flight.operator,
+  callsigns: flight.callsigns,
+  passengerName: flight.passengerName,
+  origin: toApiAirport(flight.origin),
+  destination: toApiAirport(flight.destination),
+  waypoints: flight.waypoints.map(({ name, region, lat, lon }) => ({
+    name,
+    region,
+    lat,
+    lon,
+  })),
+  scheduledArrival: flight.scheduledArrival ?? null,
+});
+
+const toApiEta = (eta: EtaEstimate): ApiEta => ({
+  basis: eta.basis,
+  arrivalTime: new Date(eta.arrivalTime).toISOString(),
+  remainingSeconds: Math.round(eta.remainingSeconds),
+  confidence: eta.confidence,
+  delaySeconds: round(eta.delaySeconds),
+});
+
+const toApiMilestone = (milestone: Milestone): ApiMilestone => ({
+  id: milestone.id,
+  kind: milestone.kind,
+  time: toIsoTime(milestone.time),
+  title: milestone.title,
+  country: milestone.country ?? null,
+  lat: milestone.lat,
+  lon: milestone.lon,
+});
+
+const toApiTrackPoint = (sample: TrackSample): ApiTrackPoint => ({
+  time: toIsoTime(sample.time),
+  lat: sample.lat,
+  lon: sample.lon,
+  altitude: round(
+    sample.altitude === null ? null : metresToFeet(sample.altitude)
+  ),
+  speed: round(sample.velocity === null ? null : msToMph(sample.velocity)),
+  heading: sample.heading,
+  onGround: sample.onGround,
+});
+
+export const getApiFlightStatus = async (
+  flight: TrackedFlight,
+  simulation: SimulationRequest | null
+): Promise<ApiFlightStatus> => {
+  const status = simulation
+    ? getSimulatedStatus(flight, simulation)
+    : await getFlightStatus(flight);
+  const track = await getFlightTrack(flight, simulation);
+  const summary = summarizeFlight(flight, status, track);
+  const state = status.state;
+
+  const countries = await loadCountryBorders();
+  const milestones = detectMilestones(track, {
+    route: buildRoute(flight.waypoints),
+    destinationCountry: getDestinationCountry(flight),
+    locate: countries ? (p) => findRegion(countries, p) : undefined,
+    now: (status.fetchedAt ?? Date.now()) / 1000,
+  });
+
+  return {
+    id: getFlightId(flight),
+    source: status.source,
+    fetchedAt:
+      status.fetchedAt === null
+        ? null
+        : new Date(status.fetchedAt).toISOString(),
+    stale: status.stale,
+    message: status.message,
+    callsign: state?.callsign || null,
+    identity: status.match?.identity ?? null,
+    isLive: state !== null,
+    position:
+      state && summary.sample
+        ? {
+            ...toApiTrackPoint(summary.sample),
+            verticalRate: round(
+              state.verticalRate === null ? null : msToFpm(state.verticalRate)
+            ),
+            squawk: state.squawk,
+          }
+        : null,
+    region:
+      countries && summary.sample
+        ? findRegion(countries, summary.sample)
+        : null,
+    positionAge: round(summary.positionAge),
+    freshness:
+      summary.positionAge === null ? null : getFreshness(summary.positionAge),
+    progress: summary.progress,
+    alongTrackKm: round(summary.alongTrackKm),
+    crossTrackKm: round(summary.crossTrackKm),
+    eta: summary.eta && toApiEta(summary.eta),
+    milestones: milestones.map(toApiMilestone),
+  };
+};
+
+export const getApiTrack = async (
+  flight: TrackedFlight,
+  simulation: SimulationRequest | null
+): Promise<ApiTrack> => ({
+  id: getFlightId(flight),
+  points: (await getFlightTrack(flight, simulation)).map(toApiTrackPoint),
+});
+
+// Partner sites call the API from their own pages
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+  "Access-Control-Max-Age": "86400",
+};
+
+// Answers CORS preflight requests
+export const corsPreflight = () =>
+  new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+
+// If-None-Match may list several tags, weak or strong, or be "*"
+const matchesEtag = (header: string | null, etag: string) =>
+  header !== null &&
+  header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === etag || tag === "*");
+
+// JSON response with an ETag of its body, or an empty 304 when the client
+// already has that version. Clients are asked to revalidate every time.
+export const apiJson = (
+  request: NextRequest,
+  body: unknown,
+  status = 200
+): NextResponse => {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ...CORS_HEADERS,
+    ETag: etag,
+    "Cache-Control": "no-cache",
+  };
+
+  if (
+    status === 200 &&
+    matchesEtag(request.headers.get("if-none-match"), etag)
+  ) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(json, {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+};
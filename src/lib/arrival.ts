@@ -0,0 +1,223 @@
+import type { TrackSample } from "./flightTypes";
+import {
+  alongTrackKm,
+  bearing,
+  destinationPoint,
+  distanceKm,
+  GeoPoint,
+} from "./geo";
+import type { Airport, Runway, TrackedFlight } from "./trackedFlight";
+
+// Arrival view: once the aircraft is within the flight's arrival radius of
+// its destination the page follows it down the final approach onto the
+// runway, along the taxiways and to the gate. Like the milestones, this is
+// worked out from the recorded positions alone.
+
+export const DEFAULT_ARRIVAL_RADIUS_KM = 60;
+// The final approach is flown straight in along the runway heading from
+// about 10 nm out
+export const FINAL_APPROACH_KM = 18.5;
+// Slower than this on the ground is standing still
+const TAXI_MIN_SPEED_MS = 2;
+// Standing still this long after landing means parked at the gate
+const ON_BLOCK_AFTER_S = 2 * 60;
+
+export interface Approach {
+  runway: string; // e.g. "14/32"
+  designator: string; // end landed on, e.g. "14"
+  threshold: GeoPoint;
+  farEnd: GeoPoint;
+  heading: number; // landing direction, degrees clockwise from north
+  fix: GeoPoint; // where the final approach starts
+}
+
+// Unix seconds of each block event, null until seen in the track
+export interface BlockTimes {
+  offBlock: number | null; // started moving at the origin
+  takeoff: number | null;
+  touchdown: number | null;
+  onBlock: number | null; // parked at the destination
+}
+
+// "approach" while airborne, "taxiing" from touchdown until parked at the
+// gate, then "landed"
+export type ArrivalPhase = "approach" | "taxiing" | "landed";
+
+export interface ArrivalStatus {
+  phase: ArrivalPhase;
+  // Null when the destination has no runways configured
+  approach: Approach | null;
+  // Along the approach path, while airborne
+  touchdownKm: number | null;
+  // At the current ground speed
+  touchdownSeconds: number | null;
+  blockTimes: BlockTimes;
+}
+
+// "14/32"
+export const runwayName = (runway: Runway) =>
+  runway.ends.map((end) => end.designator).join("/");
+
+const angleBetween = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// The runway end an aircraft at `from` lines up with most easily: the one
+// it is already flying towards along the landing direction
+export const planApproach = (
+  airport: Airport,
+  from: GeoPoint
+): Approach | null => {
+  let best: { approach: Approach; turn: number } | null = null;
+
+  for (const runway of airport.runways ?? []) {
+    const { ends } = runway;
+    for (const [end, farEnd] of [ends, [ends[1], ends[0]]]) {
+      const heading = bearing(end, farEnd);
+      const turn = angleBetween(bearing(from, end), heading);
+      if (best && turn >= best.turn) continue;
+      best = {
+        turn,
+        approach: {
+          runway: runwayName(runway),
+          designator: end.designator,
+          threshold: { lat: end.lat, lon: end.lon },
+          farEnd: { lat: farEnd.lat, lon: farEnd.lon },
+          heading,
+          fix: destinationPoint(end, (heading + 180) % 360, FINAL_APPROACH_KM),
+        },
+      };
+    }
+  }
+
+  return best?.approach ?? null;
+};
+
+// Distance still to fly to the threshold: on to the final approach fix and
+// down the final approach, or straight in once past the fix
+export const distanceToTouchdown = (approach: Approach, p: GeoPoint) =>
+  alongTrackKm(p, approach.threshold, approach.fix) >= FINAL_APPROACH_KM
+    ? distanceKm(p, approach.fix) + FINAL_APPROACH_KM
+    : distanceKm(p, approach.threshold);
+
+const isMoving = (sample: TrackSample) =>
+  (sample.velocity ?? 0) >= TAXI_MIN_SPEED_MS;
+
+// Block times from a track sorted by time. `now` (unix seconds) lets an
+// aircraft whose transponder went quiet at the gate count as parked.
+export const getBlockTimes = (
+  samples: TrackSample[],
+  now?: number
+): BlockTimes => {
+  const times: BlockTimes = {
+    offBlock: null,
+    takeoff: null,
+    touchdown: null,
+    onBlock: null,
+  };
+
+  const takeoff = samples.findIndex(
+    (s, i) => i > 0 && !s.onGround && samples[i - 1].onGround
+  );
+  if (takeoff !== -1) {
+    times.takeoff = samples[takeoff].time;
+    // Start of the taxi and takeoff roll that led up to it
+    let start = takeoff;
+    while (
+      start > 0 &&
+      samples[start - 1].onGround &&
+      isMoving(samples[start - 1])
+    ) {
+      start--;
+    }
+    if (start < takeoff) times.offBlock = samples[start].time;
+  }
+
+  const touchdown = samples.findLastIndex(
+    (s, i) => i > 0 && s.onGround && !samples[i - 1].onGround
+  );
+  if (touchdown === -1 || touchdown < takeoff) return times;
+  times.touchdown = samples[touchdown].time;
+
+  // Standing still from here to the end of the track
+  let parked = samples.length;
+  while (
+    parked > touchdown &&
+    samples[parked - 1].onGround &&
+    !isMoving(samples[parked - 1])
+  ) {
+    parked--;
+  }
+  const last = samples[samples.length - 1];
+  if (
+    parked < samples.length &&
+    Math.max(now ?? 0, last.time) - samples[parked].time >= ON_BLOCK_AFTER_S
+  ) {
+    times.onBlock = samples[parked].time;
+  }
+
+  return times;
+};
+
+// Last position of a track that touched down and is still on the ground
+// within the arrival radius, which stands in for the aircraft once its
+// transponder is switched off at the gate
+export const getLandedSample = (
+  flight: TrackedFlight,
+  track: TrackSample[]
+): TrackSample | null => {
+  const last = track.at(-1);
+  if (!last?.onGround || getBlockTimes(track).touchdown === null) return null;
+  const radius = flight.arrivalRadiusKm ?? DEFAULT_ARRIVAL_RADIUS_KM;
+  return distanceKm(last, flight.destination) <= radius ? last : null;
+};
+
+// Null until the aircraft is within the arrival radius, and for an aircraft
+// still on the ground nearer its origin
+export const getArrivalStatus = (
+  flight: TrackedFlight,
+  sample: TrackSample | null,
+  track: TrackSample[],
+  now?: number
+): ArrivalStatus | null => {
+  const airport = flight.destination;
+  const radius = flight.arrivalRadiusKm ?? DEFAULT_ARRIVAL_RADIUS_KM;
+  if (!sample || distanceKm(sample, airport) > radius) return null;
+  if (
+    sample.onGround &&
+    distanceKm(sample, flight.origin) < distanceKm(sample, airport)
+  ) {
+    return null;
+  }
+
+  const blockTimes = getBlockTimes(track, now);
+  // On the ground the runway is the one landed on, not the nearest end
+  const lastAirborne = sample.onGround
+    ? track.findLast((s) => !s.onGround && s.time <= sample.time)
+    : undefined;
+  const approach = planApproach(airport, lastAirborne ?? sample);
+
+  if (sample.onGround) {
+    return {
+      phase: blockTimes.onBlock !== null ? "landed" : "taxiing",
+      approach,
+      touchdownKm: null,
+      touchdownSeconds: null,
+      blockTimes,
+    };
+  }
+
+  const touchdownKm = approach
+    ? distanceToTouchdown(approach, sample)
+    : distanceKm(sample, airport);
+  return {
+    phase: "approach",
+    approach,
+    touchdownKm,
+    touchdownSeconds: sample.velocity
+      ? (touchdownKm * 1000) / sample.velocity
+      : null,
+    blockTimes,
+  };
+};
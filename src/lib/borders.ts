@@ -0,0 +1,23 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { BorderCollection } from "./regions";
+
+// The country borders browsers load from public/geo, read from disk for
+// lookups on the server
+const COUNTRIES_FILE = path.resolve(
+  process.cwd(),
+  "public/geo/countries.geojson"
+);
+
+let countries: Promise<BorderCollection | null> | null = null;
+
+// Resolves to null (and lookups are skipped) when the file can't be read
+export const loadCountryBorders = () => {
+  countries ??= readFile(COUNTRIES_FILE, "utf8")
+    .then((raw) => JSON.parse(raw) as BorderCollection)
+    .catch((err) => {
+      console.error("Could not read country borders:", err);
+      return null;
+    });
+  return countries;
+};
@@ -0,0 +1,81 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  DEFAULT_MAP_LAYERS,
+  MapLayersConfig,
+  validateMapLayers,
+} from "./mapLayers";
+import {
+  findTrackedFlight,
+  TrackedFlight,
+  validateTrackedFlights,
+} from "./trackedFlight";
+
+// The tracked flights come from, in order of precedence:
+//   TRACKED_FLIGHTS_JSON   - the config inline as JSON
+//   TRACKED_FLIGHTS_CONFIG - path to a JSON file
+//   config/flights.json
+// Either source may hold a single flight object or an array of flights.
+const DEFAULT_CONFIG_PATH = "config/flights.json";
+
+let cached: TrackedFlight[] | null = null;
+
+const readConfig = (): { raw: unknown; source: string } => {
+  const inline = process.env.TRACKED_FLIGHTS_JSON;
+  if (inline) {
+    return { raw: JSON.parse(inline), source: "TRACKED_FLIGHTS_JSON" };
+  }
+
+  const file = path.resolve(
+    process.cwd(),
+    process.env.TRACKED_FLIGHTS_CONFIG || DEFAULT_CONFIG_PATH
+  );
+  return { raw: JSON.parse(readFileSync(file, "utf8")), source: file };
+};
+
+// Throws TrackedFlightConfigError (or a JSON/fs error) on a bad config
+export const loadTrackedFlights = (): TrackedFlight[] => {
+  if (!cached) {
+    const { raw, source } = readConfig();
+    cached = validateTrackedFlights(raw, source);
+  }
+  return cached;
+};
+
+export const getTrackedFlight = (key: string): TrackedFlight | undefined =>
+  findTrackedFlight(loadTrackedFlights(), key);
+
+// Resolves an optional ?flight= parameter, defaulting to the first flight
+export const getTrackedFlightOrDefault = (
+  key: string | null
+): TrackedFlight | undefined =>
+  key ? getTrackedFlight(key) : loadTrackedFlights()[0];
+
+// The map's base maps and overlays (see lib/mapLayers.ts) come from
+// MAP_LAYERS_JSON, the file at MAP_LAYERS_CONFIG, or config/map-layers.json
+// if it exists; otherwise the public OpenStreetMap tiles are used.
+const DEFAULT_MAP_LAYERS_PATH = "config/map-layers.json";
+
+let cachedLayers: MapLayersConfig | null = null;
+
+// Throws MapLayersConfigError (or a JSON/fs error) on a bad config
+export const loadMapLayers = (): MapLayersConfig => {
+  if (cachedLayers) return cachedLayers;
+
+  const inline = process.env.MAP_LAYERS_JSON;
+  const file = path.resolve(
+    process.cwd(),
+    process.env.MAP_LAYERS_CONFIG || DEFAULT_MAP_LAYERS_PATH
+  );
+  if (inline) {
+    cachedLayers = validateMapLayers(JSON.parse(inline), "MAP_LAYERS_JSON");
+  } else if (process.env.MAP_LAYERS_CONFIG || existsSync(file)) {
+    cachedLayers = validateMapLayers(
+      JSON.parse(readFileSync(file, "utf8")),
+      file
+    );
+  } else {
+    cachedLayers = DEFAULT_MAP_LAYERS;
+  }
+  return cachedLayers;
+};
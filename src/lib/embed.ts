@@ -0,0 +1,28 @@
+// Options for the /embed widget, read from its query string
+
+export const EMBED_THEMES = ["dark", "light"] as const;
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+// "small" is the card alone; the others add a map
+export const EMBED_SIZES = ["small", "medium", "large"] as const;
+export type EmbedSize = (typeof EMBED_SIZES)[number];
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  size: EmbedSize;
+}
+
+const pick = <T extends string>(
+  options: readonly T[],
+  value: string | null | undefined,
+  fallback: T
+): T => options.find((option) => option === value) ?? fallback;
+
+// Unknown values fall back to the defaults rather than failing the widget
+export const parseEmbedOptions = (
+  theme: string | null | undefined,
+  size: string | null | undefined
+): EmbedOptions => ({
+  theme: pick(EMBED_THEMES, theme, "dark"),
+  size: pick(EMBED_SIZES, size, "medium"),
+});
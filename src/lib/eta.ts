@@ -0,0 +1,153 @@
+import type { TrackSample } from "./flightTypes";
+import { projectOntoRoute, Route } from "./geo";
+
+// Arrival time estimates from the aircraft's position along its planned
+// route. The distance to the top of descent is flown at the smoothed ground
+// speed of the last few minutes; the descent and approach slow down towards
+// landing speed and usually include some vectoring, so they get extra time.
+// Without a usable position the scheduled arrival time is used instead.
+
+const SPEED_WINDOW_S = 10 * 60;
+const CLIMB_DISTANCE_KM = 250;
+const DESCENT_DISTANCE_KM = 250;
+// Assumed until the aircraft has climbed out and shows its own cruise speed
+const TYPICAL_CRUISE_SPEED_MS = 240;
+const LANDING_SPEED_MS = 70;
+const APPROACH_ALLOWANCE_S = 5 * 60;
+// Closer than this to the end of the route on the ground means landed
+const ARRIVED_WITHIN_KM = 20;
+
+export type EtaConfidence = "high" | "medium" | "low";
+
+export interface EtaEstimate {
+  // "live" from the position, "schedule" from the timetable, "arrived"
+  // once the aircraft is on the ground at the destination
+  basis: "live" | "schedule" | "arrived";
+  remainingSeconds: number;
+  arrivalTime: number; // unix ms
+  confidence: EtaConfidence;
+  // Positive when the estimate is later than scheduled
+  delaySeconds: number | null;
+}
+
+export interface EtaInput {
+  route: Route;
+  sample: TrackSample | null; // latest position
+  recent: TrackSample[]; // earlier positions, sorted by time
+  now?: number; // unix ms
+  minAlongKm?: number; // see projectOntoRoute
+  scheduledArrival?: string; // ISO 8601
+}
+
+// Average ground speed (m/s) over the airborne samples in the window ending
+// at `sample`, with the number of samples it is based on
+export const smoothedSpeed = (
+  recent: TrackSample[],
+  sample: TrackSample
+): { speed: number | null; samples: number } => {
+  const since = sample.time - SPEED_WINDOW_S;
+  const speeds = [...recent.filter((t) => t.time < sample.time), sample]
+    .filter((t) => t.time >= since && !t.onGround && t.velocity)
+    .map((t) => t.velocity as number);
+
+  if (speeds.length === 0) return { speed: null, samples: 0 };
+  const total = speeds.reduce((sum, speed) => sum + speed, 0);
+  return { speed: total / speeds.length, samples: speeds.length };
+};
+
+// Seconds to fly `remainingKm` starting at `speed` m/s
+const flightTimeSeconds = (remainingKm: number, speed: number) => {
+  const cruiseKm = Math.max(remainingKm - DESCENT_DISTANCE_KM, 0);
+  const descentKm = remainingKm - cruiseKm;
+  // Speed falls roughly linearly to landing speed during the descent
+  const descentSpeed =
+    (Math.max(speed, LANDING_SPEED_MS) + LANDING_SPEED_MS) / 2;
+  const allowance =
+    APPROACH_ALLOWANCE_S * Math.min(descentKm / DESCENT_DISTANCE_KM, 1);
+  return (
+    (cruiseKm * 1000) / speed + (descentKm * 1000) / descentSpeed + allowance
+  );
+};
+
+const fromSchedule = (
+  scheduledArrival: string | undefined,
+  now: number
+): EtaEstimate | null => {
+  const arrivalTime = Date.parse(scheduledArrival ?? "");
+  if (!Number.isFinite(arrivalTime)) return null;
+  return {
+    basis: "schedule",
+    remainingSeconds: Math.max((arrivalTime - now) / 1000, 0),
+    arrivalTime,
+    confidence: "low",
+    delaySeconds: 0,
+  };
+};
+
+// Returns null when there is neither a usable position nor a schedule
+export const estimateArrival = ({
+  route,
+  sample,
+  recent,
+  now = Date.now(),
+  minAlongKm = 0,
+  scheduledArrival,
+}: EtaInput): EtaEstimate | null => {
+  if (!sample) return fromSchedule(scheduledArrival, now);
+
+  const position = projectOntoRoute(route, sample, minAlongKm);
+  const scheduled = Date.parse(scheduledArrival ?? "");
+  const delayFor = (arrivalTime: number) =>
+    Number.isFinite(scheduled) ? (arrivalTime - scheduled) / 1000 : null;
+
+  if (sample.onGround) {
+    if (position.remainingKm <= ARRIVED_WITHIN_KM) {
+      const arrivalTime = sample.time * 1000;
+      return {
+        basis: "arrived",
+        remainingSeconds: 0,
+        arrivalTime,
+        confidence: "high",
+        delaySeconds: delayFor(arrivalTime),
+      };
+    }
+    // Still at the gate: nothing better than the timetable
+    return fromSchedule(scheduledArrival, now);
+  }
+
+  const smoothed = smoothedSpeed(recent, sample);
+  if (!smoothed.speed) return fromSchedule(scheduledArrival, now);
+
+  const climbing = position.alongKm < CLIMB_DISTANCE_KM;
+  const speed = climbing
+    ? Math.max(smoothed.speed, TYPICAL_CRUISE_SPEED_MS)
+    : smoothed.speed;
+
+  // Count from the time of the fix, not from when we received it
+  const ageSeconds = Math.max(now / 1000 - sample.time, 0);
+  const remainingSeconds = Math.max(
+    flightTimeSeconds(position.remainingKm, speed) - ageSeconds,
+    0
+  );
+  const arrivalTime = now + remainingSeconds * 1000;
+
+  let confidence: EtaConfidence = "high";
+  if (ageSeconds > 10 * 60 || position.crossKm > 150) {
+    confidence = "low";
+  } else if (
+    climbing ||
+    smoothed.samples < 3 ||
+    ageSeconds > 2 * 60 ||
+    position.crossKm > 50
+  ) {
+    confidence = "medium";
+  }
+
+  return {
+    basis: "live",
+    remainingSeconds,
+    arrivalTime,
+    confidence,
+    delaySeconds: delayFor(arrivalTime),
+  };
+};
@@ -0,0 +1,90 @@
+import { detectAnomalies } from "./anomalies";
+import { loadCountryBorders } from "./borders";
+import type { TrackSample } from "./flightTypes";
+import { buildRoute } from "./geo";
+import { detectMilestones } from "./milestones";
+import { findRegion } from "./regions";
+import {
+  getDestinationCountry,
+  getFlightId,
+  TrackedFlight,
+} from "./trackedFlight";
+import { dispatchWebhook, getWebhookUrls, WebhookEvent } from "./webhooks";
+
+// Milestones and anomalies found in the recorded track as positions come
+// in, announced to the configured webhooks once each. Anomalies are also
+// logged as one JSON line each, so they reach the server logs even without
+// webhooks.
+
+// Older events were already announced before a restart
+const MAX_EVENT_AGE_S = 10 * 60;
+
+const announced = new Map<string, Set<string>>();
+
+const announce = (event: WebhookEvent) => {
+  if (event.type.startsWith("anomaly")) console.warn(JSON.stringify(event));
+  // Deliveries retry in the background; don't hold up the status
+  if (getWebhookUrls().length > 0) void dispatchWebhook(event);
+};
+
+export const notifyFlightEvents = async (
+  flight: TrackedFlight,
+  samples: TrackSample[]
+) => {
+  if (samples.length === 0) return;
+
+  const flightId = getFlightId(flight);
+  const seen = announced.get(flightId) ?? new Set<string>();
+  announced.set(flightId, seen);
+  const latest = samples[samples.length - 1].time;
+  const route = buildRoute(flight.waypoints);
+
+  // Each anomaly is announced when it starts and again when it clears
+  for (const anomaly of detectAnomalies(samples, route)) {
+    const changes = [
+      { id: anomaly.id, type: "anomaly", time: anomaly.start },
+      ...(anomaly.end === null
+        ? []
+        : [
+            {
+              id: `${anomaly.id}:cleared`,
+              type: "anomaly-cleared",
+              time: anomaly.end,
+            },
+          ]),
+    ];
+    for (const change of changes) {
+      if (seen.has(change.id)) continue;
+      seen.add(change.id);
+      if (latest - change.time > MAX_EVENT_AGE_S) continue;
+      announce({
+        id: `${flightId}:${change.id}`,
+        type: change.type,
+        flight: flightId,
+        data: anomaly,
+      });
+    }
+  }
+
+  if (getWebhookUrls().length === 0) return;
+
+  const countries = await loadCountryBorders();
+  const milestones = detectMilestones(samples, {
+    route,
+    destinationCountry: getDestinationCountry(flight),
+    locate: countries ? (p) => findRegion(countries, p) : undefined,
+  });
+
+  for (const milestone of milestones) {
+    if (seen.has(milestone.id)) continue;
+    seen.add(milestone.id);
+    if (latest - milestone.time > MAX_EVENT_AGE_S) continue;
+
+    announce({
+      id: `${flightId}:${milestone.id}`,
+      type: "milestone",
+      flight: flightId,
+      data: milestone,
+    });
+  }
+};
@@ -0,0 +1,284 @@
+import { loadTrackedFlights } from "./config";
+import { notifyFlightEvents } from "./flightEvents";
+import { resolveFlightIdentity } from "./flightIdentity";
+import { FlightSummary, summarizeFlight } from "./flightSummary";
+import type {
+  FlightResponse,
+  FlightsResponse,
+  FlightState,
+  TrackSample,
+} from "./flightTypes";
+import {
+  BoundingBox,
+  FlightDataProvider,
+  getProviders,
+  ProviderName,
+} from "./providers";
+import { ProviderError } from "./providers/types";
+import {
+  getSimulationElapsed,
+  simulateFlight,
+  simulateTrack,
+  SimulationRequest,
+} from "./simulator";
+import { getTrack, recordPosition } from "./trackStore";
+import { getFlightId, TrackedFlight } from "./trackedFlight";
+
+// Each provider's snapshot is shared by every viewer: it is refreshed at
+// most once per the provider's TTL, and after a 429/5xx (or a network
+// failure) we stop calling that source until the backoff window has passed.
+const MIN_BACKOFF_MS = 30000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// Degrees added around the route when building the search area
+const SEARCH_MARGIN = 5;
+
+interface Snapshot {
+  states: FlightState[];
+  fetchedAt: number;
+}
+
+interface ProviderState {
+  snapshot: Snapshot | null;
+  lastError: string | null;
+  backoffUntil: number;
+  failures: number;
+  inflight: Promise<void> | null;
+}
+
+const providerStates = new Map<ProviderName, ProviderState>();
+
+const getProviderState = (name: ProviderName): ProviderState => {
+  let state = providerStates.get(name);
+  if (!state) {
+    state = {
+      snapshot: null,
+      lastError: null,
+      backoffUntil: 0,
+      failures: 0,
+      inflight: null,
+    };
+    providerStates.set(name, state);
+  }
+  return state;
+};
+
+const isRetryable = (err: unknown) =>
+  !(err instanceof ProviderError) ||
+  err.status === null ||
+  err.status === 429 ||
+  err.status >= 500;
+
+// Search area covering the routes of every tracked flight, so a single
+// snapshot serves all of them
+const getSearchArea = (flights: TrackedFlight[]): BoundingBox => {
+  const points = flights.flatMap((f) => [
+    f.origin,
+    f.destination,
+    ...f.waypoints,
+  ]);
+  const lats = points.map((p) => p.lat);
+  const lons = points.map((p) => p.lon);
+  return {
+    lamin: Math.max(Math.min(...lats) - SEARCH_MARGIN, -90),
+    lomin: Math.max(Math.min(...lons) - SEARCH_MARGIN, -180),
+    lamax: Math.min(Math.max(...lats) + SEARCH_MARGIN, 90),
+    lomax: Math.min(Math.max(...lons) + SEARCH_MARGIN, 180),
+  };
+};
+
+const refresh = async (
+  provider: FlightDataProvider,
+  state: ProviderState,
+  area: BoundingBox
+) => {
+  try {
+    const states = await provider.getStates(area);
+    state.snapshot = { states, fetchedAt: Date.now() };
+    state.lastError = null;
+    state.failures = 0;
+    state.backoffUntil = 0;
+  } catch (err) {
+    console.error(`Error fetching ${provider.name} states:`, err);
+    state.lastError =
+      err instanceof Error ? err.message : "Unknown upstream error";
+
+    if (isRetryable(err)) {
+      state.failures += 1;
+      const exponential = Math.min(
+        MIN_BACKOFF_MS * 2 ** (state.failures - 1),
+        MAX_BACKOFF_MS
+      );
+      const requested =
+        err instanceof ProviderError && err.retryAfter !== null
+          ? err.retryAfter * 1000
+          : 0;
+      state.backoffUntil = Date.now() + Math.max(exponential, requested);
+    }
+  }
+};
+
+const getSnapshot = async (provider: FlightDataProvider, area: BoundingBox) => {
+  const state = getProviderState(provider.name);
+  const now = Date.now();
+  const fresh =
+    state.snapshot && now - state.snapshot.fetchedAt < provider.cacheTtlMs;
+
+  if (!fresh && now >= state.backoffUntil) {
+    // Concurrent requests share a single upstream call
+    state.inflight ??= refresh(provider, state, area).finally(() => {
+      state.inflight = null;
+    });
+    await state.inflight;
+  }
+
+  return state;
+};
+
+// What one provider currently knows about the flight
+const getProviderStatus = async (
+  provider: FlightDataProvider,
+  flight: TrackedFlight,
+  area: BoundingBox
+): Promise<FlightResponse> => {
+  const { snapshot, lastError, backoffUntil } = await getSnapshot(
+    provider,
+    area
+  );
+  const retryAt = backoffUntil > Date.now() ? backoffUntil : null;
+
+  if (!snapshot) {
+    return {
+      source: provider.name,
+      state: null,
+      match: null,
+      message: lastError ?? "Flight data unavailable",
+      messageCode: "unavailable",
+      fetchedAt: null,
+      stale: false,
+      retryAt,
+    };
+  }
+
+  const base = {
+    source: provider.name,
+    fetchedAt: snapshot.fetchedAt,
+    stale: lastError !== null,
+    retryAt,
+  };
+
+  if (snapshot.states.length === 0) {
+    return {
+      ...base,
+      state: null,
+      match: null,
+      message: `No ${flight.operator} flights currently tracked - ${flight.flightNumber} may not be in the air`,
+      messageCode: "noFlights",
+    };
+  }
+
+  const target = resolveFlightIdentity(flight, snapshot.states);
+  if (!target) {
+    return {
+      ...base,
+      state: null,
+      match: null,
+      message: `${flight.flightNumber} not currently in flight - Flight may be scheduled later`,
+      messageCode: "notInFlight",
+    };
+  }
+
+  return { ...base, ...target, message: null, messageCode: null };
+};
+
+// How useful a status is when no provider has confirmed contact:
+// a fallback match beats "not found", which beats having no data at all
+const rank = (status: FlightResponse) =>
+  status.state ? 2 : status.fetchedAt !== null ? 1 : 0;
+
+// Asks each provider in turn, moving on whenever one has no confirmed
+// contact with the aircraft
+export const getFlightStatus = async (
+  flight: TrackedFlight
+): Promise<FlightResponse> => {
+  const area = getSearchArea(loadTrackedFlights());
+  let best: FlightResponse | null = null;
+
+  for (const provider of getProviders()) {
+    const status = await getProviderStatus(provider, flight, area);
+
+    if (status.match?.identity === "confirmed" && status.state) {
+      // Only positions we're sure belong to the flight go into its track
+      const id = getFlightId(flight);
+      if (await recordPosition(id, status.state)) {
+        await notifyFlightEvents(flight, await getTrack(id));
+      }
+      return status;
+    }
+    if (!best || rank(status) > rank(best)) best = status;
+  }
+
+  // getProviders() always returns at least one provider
+  return best!;
+};
+
+// Status of the simulated aircraft (see lib/simulator.ts), never recorded
+export const getSimulatedStatus = (
+  flight: TrackedFlight,
+  simulation: SimulationRequest
+): FlightResponse => {
+  const now = Date.now();
+  const elapsed = getSimulationElapsed(flight, now, simulation.offset);
+  return {
+    source: "simulation",
+    state: simulateFlight(flight, elapsed, now),
+    match: { identity: "confirmed", matchedBy: "callsign" },
+    message: null,
+    messageCode: null,
+    fetchedAt: now,
+    stale: false,
+    retryAt: null,
+  };
+};
+
+// Positions recorded so far, or the simulated aircraft's track up to now
+export const getFlightTrack = async (
+  flight: TrackedFlight,
+  simulation: SimulationRequest | null = null
+): Promise<TrackSample[]> => {
+  if (!simulation) return getTrack(getFlightId(flight));
+  const now = Date.now();
+  return simulateTrack(
+    flight,
+    getSimulationElapsed(flight, now, simulation.offset),
+    now
+  );
+};
+
+// Current status with progress and ETA, for the share image
+export const getFlightSummary = async (
+  flight: TrackedFlight,
+  simulation: SimulationRequest | null = null
+): Promise<FlightSummary> => {
+  const status = simulation
+    ? getSimulatedStatus(flight, simulation)
+    : await getFlightStatus(flight);
+  return summarizeFlight(
+    flight,
+    status,
+    await getFlightTrack(flight, simulation)
+  );
+};
+
+export const getAllFlightStatuses = async (
+  simulation: SimulationRequest | null = null
+): Promise<FlightsResponse> => ({
+  flights: await Promise.all(
+    loadTrackedFlights().map(async (flight) => ({
+      id: getFlightId(flight),
+      ...(simulation
+        ? getSimulatedStatus(flight, simulation)
+        : await getFlightStatus(flight)),
+    }))
+  ),
+});
@@ -0,0 +1,94 @@
+import type { FlightIdentity, FlightMatch, FlightState } from "./flightTypes";
+import { getFlightId, TrackedFlight } from "./trackedFlight";
+
+// Works out which aircraft in a snapshot is the tracked flight. Once one of
+// the flight's callsigns is seen we lock onto the transponder (icao24) that
+// broadcast it and keep following that airframe, even if its callsign field
+// goes blank. Locks live in server memory, one per tracked flight.
+const LOCK_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Fallback candidates must be at cruise altitude (> ~20,000 ft), which
+// indicates an international rather than domestic sector
+const FALLBACK_MIN_ALTITUDE = 6000;
+
+interface Lock {
+  icao24: string;
+  lastSeen: number;
+}
+
+const locks = new Map<string, Lock>();
+
+const getLockedIcao24 = (flight: TrackedFlight, now: number) => {
+  // An address from config is pinned for good
+  if (flight.icao24) return flight.icao24;
+
+  const lock = locks.get(getFlightId(flight));
+  return lock && now - lock.lastSeen < LOCK_TTL_MS ? lock.icao24 : null;
+};
+
+// Airframes currently locked by other tracked flights
+const getClaimedIcao24s = (flight: TrackedFlight, now: number) => {
+  const id = getFlightId(flight);
+  const claimed = new Set<string>();
+  for (const [flightId, lock] of locks) {
+    if (flightId !== id && now - lock.lastSeen < LOCK_TTL_MS) {
+      claimed.add(lock.icao24);
+    }
+  }
+  return claimed;
+};
+
+const match = (
+  state: FlightState,
+  identity: FlightIdentity,
+  matchedBy: FlightMatch["matchedBy"]
+) => ({ state, match: { identity, matchedBy } });
+
+export const resolveFlightIdentity = (
+  flight: TrackedFlight,
+  states: FlightState[],
+  now = Date.now()
+): { state: FlightState; match: FlightMatch } | null => {
+  const id = getFlightId(flight);
+
+  // 1. The airframe we are locked onto, whatever its callsign says
+  const locked = getLockedIcao24(flight, now);
+  const lockedState = locked && states.find((s) => s.icao24 === locked);
+  if (lockedState) {
+    if (!flight.icao24) locks.set(id, { icao24: locked, lastSeen: now });
+    return match(lockedState, "confirmed", "icao24");
+  }
+
+  // 2. One of the flight's callsigns confirms it and (re)locks the airframe,
+  // unless another tracked flight has that airframe. With an address pinned
+  // in config, a different airframe using the callsign is only a guess.
+  const claimed = getClaimedIcao24s(flight, now);
+  const byCallsign = states.find(
+    (s) => flight.callsigns.includes(s.callsign) && !claimed.has(s.icao24)
+  );
+  if (byCallsign) {
+    if (flight.icao24) {
+      return match(
+        byCallsign,
+        byCallsign.icao24 === flight.icao24 ? "confirmed" : "unconfirmed",
+        "callsign"
+      );
+    }
+    locks.set(id, { icao24: byCallsign.icao24, lastSeen: now });
+    return match(byCallsign, "confirmed", "callsign");
+  }
+
+  // 3. Fallback: another airborne flight of the same operator. This is only
+  // a guess, so it is labelled unconfirmed and never locked.
+  const prefix = flight.fallbackCallsignPrefix;
+  if (!prefix) return null;
+
+  const fallback = states.find(
+    (s) =>
+      !s.onGround &&
+      (s.baroAltitude ?? 0) > FALLBACK_MIN_ALTITUDE &&
+      s.callsign.startsWith(prefix) &&
+      !claimed.has(s.icao24)
+  );
+  return fallback ? match(fallback, "unconfirmed", "fallback") : null;
+};
@@ -0,0 +1,123 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Drives the background poller with the file provider and a local webhook
+// receiver, as a server with no viewers would run: a position on the
+// runway, then one just after takeoff, should reach the receiver as a
+// signed takeoff milestone (among others, e.g. the country it is over).
+
+interface Delivery {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = "test-secret";
+
+let dir: string;
+let receiver: Server;
+const deliveries: Delivery[] = [];
+
+const takeoff = () =>
+  deliveries.find((d) => JSON.parse(d.body).data?.kind === "takeoff");
+
+// One BG202 state vector at Heathrow in OpenSky's format
+const writeState = (time: number, onGround: boolean, altitude: number) =>
+  writeFile(
+    path.join(dir, "states.json"),
+    JSON.stringify({
+      time,
+      states: [
+        [
+          "70c0cd",
+          "BG202   ",
+          "Bangladesh",
+          time,
+          time,
+          -0.47,
+          51.47,
+          altitude,
+          onGround,
+          onGround ? 10 : 80,
+          270,
+          onGround ? 0 : 8,
+          null,
+          altitude,
+          null,
+          false,
+          0,
+        ],
+      ],
+    })
+  );
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "flight-poller-"));
+  receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      deliveries.push({ headers: req.headers, body });
+      res.writeHead(204).end();
+    });
+  });
+  await new Promise<void>((resolve) =>
+    receiver.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = receiver.address() as AddressInfo;
+
+  vi.stubEnv("FLIGHT_PROVIDERS", "file");
+  vi.stubEnv("FLIGHT_DATA_FILE", path.join(dir, "states.json"));
+  vi.stubEnv("TRACK_STORE_DIR", path.join(dir, "tracks"));
+  vi.stubEnv("WEBHOOK_URLS", `http://127.0.0.1:${port}/hook`);
+  vi.stubEnv("WEBHOOK_SECRET", SECRET);
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => receiver.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("startFlightPoller", () => {
+  it("records positions and sends milestone webhooks without viewers", async () => {
+    // Modules read their settings when first loaded
+    const { startFlightPoller } = await import("./flightPoller");
+    const { getTrack } = await import("./trackStore");
+    const { signPayload } = await import("./webhooks");
+
+    // Only the clock is faked: the file provider's snapshot is reused for
+    // five seconds, which the test skips over
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = Math.floor(Date.now() / 1000);
+    await writeState(start, true, 0);
+
+    const stop = startFlightPoller(20);
+    try {
+      await vi.waitFor(async () =>
+        expect(await getTrack("BG202")).toHaveLength(1)
+      );
+
+      await writeState(start + 60, false, 300);
+      vi.setSystemTime(Date.now() + 10000);
+      await vi.waitFor(() => expect(takeoff()).toBeDefined());
+    } finally {
+      stop();
+    }
+
+    expect(await getTrack("BG202")).toHaveLength(2);
+    const { headers, body } = takeoff()!;
+    expect(headers["x-webhook-event"]).toBe("milestone");
+    expect(headers["x-webhook-signature"]).toBe(signPayload(body, SECRET));
+    expect(JSON.parse(body)).toMatchObject({
+      id: `BG202:takeoff-${start + 60}`,
+      type: "milestone",
+      flight: "BG202",
+      data: { kind: "takeoff", time: start + 60 },
+    });
+  });
+});
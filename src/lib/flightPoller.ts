@@ -0,0 +1,56 @@
+import { loadTrackedFlights } from "./config";
+import { getFlightStatus } from "./flightFeed";
+import { getFlightId } from "./trackedFlight";
+
+// Polls every tracked flight on the server whether or not anyone is
+// watching, so positions are recorded and milestone webhooks go out with no
+// page open. Provider snapshots are shared with the pages and API routes,
+// so this adds no upstream calls beyond one per provider cache TTL.
+// FLIGHT_POLL_INTERVAL_MS=0 turns it off.
+const DEFAULT_INTERVAL_MS = 30000;
+
+export const getPollInterval = () => {
+  const value = process.env.FLIGHT_POLL_INTERVAL_MS;
+  return value === undefined || value === ""
+    ? DEFAULT_INTERVAL_MS
+    : Number(value);
+};
+
+// One pass over the tracked flights; errors are logged, never thrown
+export const pollTrackedFlights = async () => {
+  for (const flight of loadTrackedFlights()) {
+    try {
+      await getFlightStatus(flight);
+    } catch (err) {
+      console.error(`Error polling ${getFlightId(flight)}:`, err);
+    }
+  }
+};
+
+let stopPoller: (() => void) | null = null;
+
+// Starts polling (once per process) and returns a function that stops it.
+// Each pass starts `intervalMs` after the previous one finished.
+export const startFlightPoller = (intervalMs = getPollInterval()) => {
+  if (stopPoller) return stopPoller;
+  if (!(intervalMs > 0)) return () => {};
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const run = async () => {
+    await pollTrackedFlights();
+    if (stopped) return;
+    timer = setTimeout(run, intervalMs);
+    // Never the reason the process stays up, e.g. in a build worker
+    timer.unref?.();
+  };
+  void run();
+
+  stopPoller = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    stopPoller = null;
+  };
+  return stopPoller;
+};
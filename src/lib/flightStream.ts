@@ -0,0 +1,120 @@
+import { getFlightStatus, getSimulatedStatus } from "./flightFeed";
+import type { FlightResponse } from "./flightTypes";
+import {
+  normalizeSimulation,
+  SimulationRequest,
+  toSimulationQuery,
+} from "./simulator";
+import { getFlightId, TrackedFlight } from "./trackedFlight";
+
+// Pushes flight status updates to every connected viewer. One poller runs
+// per flight (and simulation request) while anyone is listening, and each
+// change becomes a numbered event; the channel goes when the last viewer
+// does. The last few events are kept so a
+// browser that reconnects with Last-Event-ID gets exactly what it missed.
+const POLL_INTERVAL_MS = Number(process.env.STREAM_POLL_INTERVAL_MS) || 10000;
+const BUFFERED_EVENTS = 50;
+
+export interface FlightEvent {
+  id: number;
+  status: FlightResponse;
+}
+
+type Listener = (event: FlightEvent) => void;
+
+interface Channel {
+  flight: TrackedFlight;
+  simulation: SimulationRequest | null;
+  listeners: Set<Listener>;
+  events: FlightEvent[];
+  nextId: number;
+  lastKey: string | null;
+  polling: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const channels = new Map<string, Channel>();
+
+// Everything about a status except when it was fetched; an unchanged key
+// means there is nothing new to send
+const statusKey = (status: FlightResponse) =>
+  JSON.stringify({ ...status, fetchedAt: null });
+
+const poll = async (channel: Channel) => {
+  try {
+    const status = channel.simulation
+      ? getSimulatedStatus(channel.flight, channel.simulation)
+      : await getFlightStatus(channel.flight);
+
+    const key = statusKey(status);
+    if (key !== channel.lastKey) {
+      channel.lastKey = key;
+      const event = { id: channel.nextId++, status };
+      channel.events = [...channel.events, event].slice(-BUFFERED_EVENTS);
+      channel.listeners.forEach((listener) => listener(event));
+    }
+  } catch (err) {
+    console.error(`Error polling ${getFlightId(channel.flight)}:`, err);
+  }
+
+  // Stop once the last viewer has gone
+  if (channel.listeners.size > 0) {
+    channel.timer = setTimeout(() => poll(channel), POLL_INTERVAL_MS);
+  } else {
+    channel.timer = null;
+    channel.polling = false;
+  }
+};
+
+// Calls `listener` with every new status of the flight until the returned
+// function is called. Events after `lastEventId` are replayed first; when
+// those are no longer buffered the latest status is sent instead.
+export const subscribe = (
+  flight: TrackedFlight,
+  requested: SimulationRequest | null,
+  listener: Listener,
+  lastEventId: number | null = null
+): (() => void) => {
+  const simulation = normalizeSimulation(flight, requested);
+  const key = `${getFlightId(flight)}?${toSimulationQuery(simulation)}`;
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = {
+      flight,
+      simulation,
+      listeners: new Set(),
+      events: [],
+      nextId: 1,
+      lastKey: null,
+      polling: false,
+      timer: null,
+    };
+    channels.set(key, channel);
+  }
+
+  const { events } = channel;
+  const missed =
+    lastEventId !== null && events.some((e) => e.id === lastEventId)
+      ? events.filter((e) => e.id > lastEventId)
+      : events.slice(-1);
+  missed.forEach(listener);
+
+  channel.listeners.add(listener);
+  if (!channel.polling) {
+    channel.polling = true;
+    poll(channel);
+  }
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size > 0) return;
+
+    // A poll already under way stops by itself when it finishes
+    if (channel.timer) {
+      clearTimeout(channel.timer);
+      channel.timer = null;
+      channel.polling = false;
+    }
+    if (channels.get(key) === channel) channels.delete(key);
+  };
+};
@@ -0,0 +1,72 @@
+import { EtaEstimate, estimateArrival } from "./eta";
+import type {
+  FlightIdentity,
+  FlightResponse,
+  TrackSample,
+} from "./flightTypes";
+import { buildRoute, projectOntoRoute } from "./geo";
+import { toTrackSample } from "./track";
+import type { TrackedFlight } from "./trackedFlight";
+
+// Headline status of a flight - where it is, how far along its route and
+// when it lands - for the embeddable widget, the share image and the public
+// API, which don't have the flight page's history of polls to work from.
+
+export interface FlightSummary {
+  // "unconfirmed" when the position is a fallback aircraft's, which callers
+  // must label rather than pass off as the tracked flight
+  identity: FlightIdentity | null;
+  sample: TrackSample | null; // latest position
+  progress: number; // 0-1 along the planned route
+  // Position against the planned route, in km; null without a position
+  alongTrackKm: number | null;
+  crossTrackKm: number | null;
+  eta: EtaEstimate | null;
+  // Seconds between the position report and the upstream snapshot
+  positionAge: number | null;
+}
+
+export const summarizeFlight = (
+  flight: TrackedFlight,
+  status: FlightResponse,
+  track: TrackSample[]
+): FlightSummary => {
+  const route = buildRoute(flight.waypoints);
+  const identity = status.match?.identity ?? null;
+  const sample = status.state ? toTrackSample(status.state) : null;
+  // A fallback match isn't the flight whose track was recorded
+  const recent = identity === "confirmed" ? track : [];
+
+  // Replay the recorded track so progress can't snap back to an earlier leg
+  const minAlongKm = recent.reduce(
+    (along, s) => Math.max(along, projectOntoRoute(route, s, along).alongKm),
+    0
+  );
+  const position = sample ? projectOntoRoute(route, sample, minAlongKm) : null;
+  const alongKm = Math.max(position?.alongKm ?? 0, minAlongKm);
+
+  const eta = estimateArrival({
+    route,
+    sample,
+    recent,
+    now: status.fetchedAt ?? Date.now(),
+    minAlongKm,
+    scheduledArrival:
+      status.source === "simulation" ? undefined : flight.scheduledArrival,
+  });
+
+  return {
+    identity,
+    sample,
+    progress: route.totalKm > 0 ? Math.min(alongKm / route.totalKm, 1) : 0,
+    alongTrackKm: position ? alongKm : null,
+    crossTrackKm: position?.crossKm ?? null,
+    // Same as the flight page: a guessed aircraft's arrival is a low guess
+    eta:
+      eta && identity === "unconfirmed" ? { ...eta, confidence: "low" } : eta,
+    positionAge:
+      sample && status.fetchedAt !== null
+        ? Math.max(status.fetchedAt / 1000 - sample.time, 0)
+        : null,
+  };
+};
@@ -0,0 +1,77 @@
+// Shapes shared between the /api/flight route and the pages that consume it.
+
+// Latest state vector of the aircraft we are following, in OpenSky units
+// (metres, metres per second, unix seconds).
+export interface FlightState {
+  icao24: string;
+  callsign: string;
+  originCountry: string;
+  timePosition: number | null;
+  lastContact: number;
+  lat: number;
+  lon: number;
+  baroAltitude: number | null;
+  velocity: number | null;
+  trueTrack: number | null; // degrees clockwise from north
+  verticalRate: number | null; // metres per second, positive climbing
+  squawk: string | null; // transponder code, e.g. "7700"
+  onGround: boolean;
+}
+
+// One recorded position of the tracked flight, same units as FlightState
+export interface TrackSample {
+  time: number; // unix seconds of the position report
+  lat: number;
+  lon: number;
+  altitude: number | null;
+  velocity: number | null;
+  heading: number | null;
+  onGround: boolean;
+  // Transponder code; missing from tracks recorded before it was kept
+  squawk?: string | null;
+}
+
+// "confirmed": the aircraft broadcast one of the flight's callsigns, or is the
+// airframe we locked onto after it did. "unconfirmed": a fallback guess.
+export type FlightIdentity = "confirmed" | "unconfirmed";
+
+export interface FlightMatch {
+  identity: FlightIdentity;
+  matchedBy: "icao24" | "callsign" | "fallback";
+}
+
+// Why a FlightResponse has no position, for clients to word in their own
+// language: upstream unavailable, none of the operator's aircraft about, or
+// this flight not among them
+export type FlightMessageCode = "unavailable" | "noFlights" | "notInFlight";
+
+// Where a FlightResponse came from: a data provider or the simulator
+export type FlightSource = "opensky" | "aircraft-json" | "file" | "simulation";
+
+export interface FlightResponse {
+  source: FlightSource;
+  state: FlightState | null;
+  // How `state` was identified as the tracked flight
+  match: FlightMatch | null;
+  // Why `state` is null (flight not found, upstream unavailable, ...), in
+  // English, and as a code clients translate
+  message: string | null;
+  messageCode: FlightMessageCode | null;
+  // When the upstream snapshot was taken (ms since epoch)
+  fetchedAt: number | null;
+  // True when upstream failed and a previously cached snapshot was served
+  stale: boolean;
+  // When the server will next contact upstream after a 429/5xx (ms since epoch)
+  retryAt: number | null;
+}
+
+export interface FlightsResponse {
+  // One entry per configured flight, keyed by flight id (see getFlightId)
+  flights: Array<FlightResponse & { id: string }>;
+}
+
+export interface FlightTrackResponse {
+  id: string;
+  // Oldest first
+  samples: TrackSample[];
+}
@@ -0,0 +1,39 @@
+import type { TrackSample } from "./flightTypes";
+import { destinationPoint, GeoPoint } from "./geo";
+
+// How current the aircraft's position is. Over areas with poor ADS-B
+// coverage positions can be minutes old even though the feed itself is
+// up to date, so the age comes from the position's own timestamp.
+
+// Positions older than this are shown as "last seen N min ago"
+export const STALE_AFTER_S = 60;
+// Nothing heard for this long while airborne means the signal was lost
+export const SIGNAL_LOST_AFTER_S = 5 * 60;
+// Dead reckoning beyond this is more guess than estimate
+const MAX_DEAD_RECKONING_S = 30 * 60;
+
+export type Freshness = "live" | "stale" | "lost";
+
+export const getFreshness = (ageSeconds: number): Freshness =>
+  ageSeconds >= SIGNAL_LOST_AFTER_S
+    ? "lost"
+    : ageSeconds >= STALE_AFTER_S
+      ? "stale"
+      : "live";
+
+// Where the aircraft probably is `ageSeconds` after the sample, assuming
+// it held its heading and speed. Null when those aren't known.
+export const deadReckon = (
+  sample: TrackSample,
+  ageSeconds: number
+): GeoPoint | null => {
+  if (sample.onGround || sample.heading === null || !sample.velocity) {
+    return null;
+  }
+  const seconds = Math.min(Math.max(ageSeconds, 0), MAX_DEAD_RECKONING_S);
+  return destinationPoint(
+    sample,
+    sample.heading,
+    (sample.velocity * seconds) / 1000
+  );
+};
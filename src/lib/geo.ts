@@ -0,0 +1,208 @@
+// Spherical-earth geodesy helpers. Points are { lat, lon } in degrees,
+// distances in km.
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Great-circle distance between two points (Haversine formula)
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.lat)) *
+      Math.cos(toRad(b.lat)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+// Initial bearing from a to b, degrees clockwise from north (0-360)
+export const bearing = (a: GeoPoint, b: GeoPoint): number => {
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Point a fraction f (0-1) of the way along the great circle from a to b
+export const interpolate = (a: GeoPoint, b: GeoPoint, f: number): GeoPoint => {
+  const angle = distanceKm(a, b) / EARTH_RADIUS_KM;
+  if (angle === 0) return { lat: a.lat, lon: a.lon };
+
+  const lat1 = toRad(a.lat);
+  const lon1 = toRad(a.lon);
+  const lat2 = toRad(b.lat);
+  const lon2 = toRad(b.lon);
+  const A = Math.sin((1 - f) * angle) / Math.sin(angle);
+  const B = Math.sin(f * angle) / Math.sin(angle);
+  const x =
+    A * Math.cos(lat1) * Math.cos(lon1) + B * Math.cos(lat2) * Math.cos(lon2);
+  const y =
+    A * Math.cos(lat1) * Math.sin(lon1) + B * Math.cos(lat2) * Math.sin(lon2);
+  const z = A * Math.sin(lat1) + B * Math.sin(lat2);
+
+  return {
+    lat: toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    lon: toDeg(Math.atan2(y, x)),
+  };
+};
+
+// Point reached travelling distanceKm from p on the given initial bearing
+export const destinationPoint = (
+  p: GeoPoint,
+  bearingDeg: number,
+  distance: number
+): GeoPoint => {
+  const angle = distance / EARTH_RADIUS_KM;
+  const theta = toRad(bearingDeg);
+  const lat1 = toRad(p.lat);
+  const lon1 = toRad(p.lon);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angle) +
+      Math.cos(lat1) * Math.sin(angle) * Math.cos(theta)
+  );
+  const lon2 =
+    lon1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+      Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+    );
+  return {
+    lat: toDeg(lat2),
+    lon: ((toDeg(lon2) + 540) % 360) - 180,
+  };
+};
+
+// Signed distance of p from the great circle through a and b
+// (positive when p is to the right of the a -> b track)
+export const crossTrackKm = (p: GeoPoint, a: GeoPoint, b: GeoPoint): number => {
+  const angle = distanceKm(a, p) / EARTH_RADIUS_KM;
+  const theta = toRad(bearing(a, p) - bearing(a, b));
+  return Math.asin(Math.sin(angle) * Math.sin(theta)) * EARTH_RADIUS_KM;
+};
+
+// Distance from a along the a -> b great circle to the point abeam p
+// (negative when p is behind a)
+export const alongTrackKm = (p: GeoPoint, a: GeoPoint, b: GeoPoint): number => {
+  const angle = distanceKm(a, p) / EARTH_RADIUS_KM;
+  const cross = crossTrackKm(p, a, b) / EARTH_RADIUS_KM;
+  const theta = toRad(bearing(a, p) - bearing(a, b));
+  const cos = Math.min(Math.max(Math.cos(angle) / Math.cos(cross), -1), 1);
+  return Math.acos(cos) * EARTH_RADIUS_KM * (Math.cos(theta) >= 0 ? 1 : -1);
+};
+
+// Points every ~stepKm along the great-circle legs between `points`, for
+// drawing the route as the curve actually flown. Longitudes are unwrapped
+// so the line doesn't jump across the map at the antimeridian.
+export const greatCirclePath = (
+  points: GeoPoint[],
+  stepKm = 50
+): GeoPoint[] => {
+  if (points.length === 0) return [];
+
+  const path: GeoPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const steps = Math.max(1, Math.ceil(distanceKm(a, b) / stepKm));
+    for (let s = 1; s <= steps; s++) {
+      const next = interpolate(a, b, s / steps);
+      const prev = path[path.length - 1];
+      let lon = next.lon;
+      while (lon - prev.lon > 180) lon -= 360;
+      while (lon - prev.lon < -180) lon += 360;
+      path.push({ lat: next.lat, lon });
+    }
+  }
+  return path;
+};
+
+export interface Route {
+  points: GeoPoint[];
+  // Along-route distance at the start of each leg (leg i runs from
+  // points[i] to points[i + 1])
+  legStarts: number[];
+  legLengths: number[];
+  totalKm: number;
+}
+
+export const buildRoute = (points: GeoPoint[]): Route => {
+  const legStarts: number[] = [];
+  const legLengths: number[] = [];
+  let totalKm = 0;
+  for (let i = 1; i < points.length; i++) {
+    const length = distanceKm(points[i - 1], points[i]);
+    legStarts.push(totalKm);
+    legLengths.push(length);
+    totalKm += length;
+  }
+  return { points, legStarts, legLengths, totalKm };
+};
+
+export interface RoutePosition {
+  alongKm: number; // distance flown along the planned route
+  crossKm: number; // distance off the planned route (unsigned)
+  remainingKm: number; // along-route distance still to fly
+  leg: number;
+}
+
+// How far back along the route a new position may be matched, so noise near
+// a bend can't snap progress back onto an earlier leg
+const BACKTRACK_TOLERANCE_KM = 50;
+
+// Projects p onto the nearest leg of the route. Pass the previous alongKm
+// as `minAlongKm` to keep successive positions moving forwards.
+export const projectOntoRoute = (
+  route: Route,
+  p: GeoPoint,
+  minAlongKm = 0
+): RoutePosition => {
+  let best: RoutePosition | null = null;
+  let fallback: RoutePosition | null = null;
+
+  for (let i = 0; i < route.legLengths.length; i++) {
+    const a = route.points[i];
+    const b = route.points[i + 1];
+    const length = route.legLengths[i];
+
+    const along = Math.min(Math.max(alongTrackKm(p, a, b), 0), length);
+    // Off the ends of the leg, the nearest point is the clamped endpoint
+    const crossKm =
+      along > 0 && along < length
+        ? Math.abs(crossTrackKm(p, a, b))
+        : distanceKm(p, length > 0 ? interpolate(a, b, along / length) : a);
+
+    const alongKm = route.legStarts[i] + along;
+    const candidate = {
+      alongKm,
+      crossKm,
+      remainingKm: route.totalKm - alongKm,
+      leg: i,
+    };
+
+    if (!fallback || crossKm < fallback.crossKm) fallback = candidate;
+    if (
+      alongKm >= minAlongKm - BACKTRACK_TOLERANCE_KM &&
+      (!best || crossKm < best.crossKm)
+    ) {
+      best = candidate;
+    }
+  }
+
+  return (
+    best ??
+    fallback ?? { alongKm: 0, crossKm: 0, remainingKm: route.totalKm, leg: 0 }
+  );
+};
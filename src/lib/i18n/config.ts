@@ -0,0 +1,43 @@
+// Languages the UI is available in. Every page lives under a locale prefix
+// (/en/..., /bn-BD/...); proxy.ts sends unprefixed URLs to the visitor's
+// language.
+
+export const LOCALES = ["en", "bn-BD"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the language picked in the switcher
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  "bn-BD": "বাংলা",
+};
+
+export const isLocale = (value: string): value is Locale =>
+  (LOCALES as readonly string[]).includes(value);
+
+// Best match for an Accept-Language header, e.g. "bn;q=0.9,en;q=0.8"
+export const matchLocale = (acceptLanguage: string | null): Locale => {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, q] = part.trim().split(";q=");
+      return { tag: tag.toLowerCase(), q: q === undefined ? 1 : Number(q) };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const match = LOCALES.find(
+      (locale) =>
+        locale.toLowerCase() === tag ||
+        locale.split("-")[0] === tag.split("-")[0]
+    );
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
@@ -0,0 +1,39 @@
+import type { Anomaly } from "../anomalies";
+import type { FlightResponse } from "../flightTypes";
+import type { Milestone } from "../milestones";
+import type { TrackedFlight } from "../trackedFlight";
+import type { MessageKey, Translator } from ".";
+import en from "./messages/en";
+
+// Wording for events detected in lib/, which carry English titles for
+// webhooks and logs plus the values needed to word them in other languages
+
+export const describeMilestone = ({ t }: Translator, milestone: Milestone) =>
+  t(`milestone.${milestone.kind}`, { country: milestone.country ?? "" });
+
+// Why a status has no position. A code this page has no wording for (from
+// a newer server) falls back to the server's English message.
+export const describeStatusMessage = (
+  { t }: Translator,
+  status: Pick<FlightResponse, "message" | "messageCode">,
+  flight: TrackedFlight
+) => {
+  const key = `status.${status.messageCode}`;
+  return status.messageCode && key in en
+    ? t(key as MessageKey, {
+        operator: flight.operator,
+        flight: flight.flightNumber,
+      })
+    : status.message;
+};
+
+export const describeAnomaly = ({ t }: Translator, anomaly: Anomaly) => {
+  const squawkKey = `anomaly.squawk.${anomaly.values.squawk}`;
+  return {
+    title: t(`anomaly.${anomaly.kind}`, anomaly.values),
+    detail:
+      anomaly.reason === "emergency-squawk"
+        ? t(squawkKey as MessageKey)
+        : t(`anomaly.reason.${anomaly.reason}`, anomaly.values),
+  };
+};
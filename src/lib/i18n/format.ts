@@ -0,0 +1,40 @@
+import type { Translator } from ".";
+
+// Durations and clock times shared by the flight page and the embed widget
+
+const twoDigits = { minimumIntegerDigits: 2 };
+
+// "1h 05m"
+export const formatDuration = ({ t, number }: Translator, seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return t("duration.hoursMinutes", {
+    hours: Math.floor(minutes / 60),
+    minutes: number(minutes % 60, twoDigits),
+  });
+};
+
+// Clock time at the given IANA zone, e.g. "Thu 14:35 GMT+6"
+export const formatLocalTime = (
+  { time: format }: Translator,
+  time: number,
+  timeZone = "UTC"
+) =>
+  format(time, {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  });
+
+// "45 s", "12 min", "1 h 05 min"
+export const formatAge = ({ t, number }: Translator, seconds: number) => {
+  if (seconds < 60) return t("age.seconds", { value: Math.round(seconds) });
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return t("age.minutes", { value: minutes });
+  return t("age.hoursMinutes", {
+    hours: Math.floor(minutes / 60),
+    minutes: number(minutes % 60, twoDigits),
+  });
+};
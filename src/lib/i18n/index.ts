@@ -0,0 +1,90 @@
+import { Locale } from "./config";
+import bn from "./messages/bn-BD";
+import en, { MessageKey } from "./messages/en";
+
+export type { MessageKey };
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  "bn-BD": bn,
+};
+
+// Intl locale behind each UI locale. Bengali digits are asked for
+// explicitly rather than relying on the runtime's default for "bn".
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-GB",
+  "bn-BD": "bn-BD-u-nu-beng",
+};
+
+// Zone for clock times that aren't tied to a place; undefined is the
+// viewer's own zone. Bangladeshi readers expect Dhaka time wherever they are.
+const TIME_ZONES: Record<Locale, string | undefined> = {
+  en: undefined,
+  "bn-BD": "Asia/Dhaka",
+};
+
+export type MessageParams = Record<string, string | number>;
+
+// Keys with .one/.other variants, e.g. "overview.following"
+type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  number: (value: number, options?: Intl.NumberFormatOptions) => string;
+  // Clock time; pass timeZone for times at a particular place
+  time: (time: number | Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const create = (locale: Locale): Translator => {
+  const intlLocale = INTL_LOCALES[locale];
+  const messages = MESSAGES[locale];
+  const numberFormat = new Intl.NumberFormat(intlLocale, {
+    maximumFractionDigits: 0,
+  });
+  const pluralRules = new Intl.PluralRules(intlLocale);
+
+  const number = (value: number, options?: Intl.NumberFormatOptions) =>
+    options
+      ? new Intl.NumberFormat(intlLocale, options).format(value)
+      : numberFormat.format(value);
+
+  const t = (key: MessageKey, params?: MessageParams) =>
+    messages[key].replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? number(value) : value;
+    });
+
+  return {
+    locale,
+    t,
+    plural: (key, count, params) => {
+      const variant = `${key}.${pluralRules.select(count)}`;
+      return t((variant in messages ? variant : `${key}.other`) as MessageKey, {
+        count,
+        ...params,
+      });
+    },
+    number,
+    time: (time, options) =>
+      new Intl.DateTimeFormat(intlLocale, {
+        timeZone: TIME_ZONES[locale],
+        ...options,
+      }).format(time),
+  };
+};
+
+const translators = new Map<Locale, Translator>();
+
+export const getTranslator = (locale: Locale): Translator => {
+  let translator = translators.get(locale);
+  if (!translator) {
+    translator = create(locale);
+    translators.set(locale, translator);
+  }
+  return translator;
+};
@@ -0,0 +1,191 @@
+import type { MessageKey } from "./en";
+
+// Bengali (Bangladesh) messages
+const bn: Record<MessageKey, string> = {
+  "app.title": "নেতার ঘরে ফেরা",
+  "app.footer":
+    "OpenSky Network-এর মাধ্যমে সরাসরি ফ্লাইট ট্র্যাকিং • নেতার ঘরে ফেরা ২০২৫",
+  "app.simulated": "প্রদর্শনের জন্য সিমুলেটেড তথ্য",
+  "app.language": "ভাষা",
+
+  "meta.title": "নেতার ঘরে ফেরা - ফ্লাইট ট্র্যাকার",
+  "meta.description": "নেতার ঘরে ফেরার সরাসরি ফ্লাইট ট্র্যাকিং",
+  "meta.flightTitle": "{flight} - {passenger} | নেতার ঘরে ফেরা",
+  "meta.flightDescription":
+    "{origin} থেকে {destination} পর্যন্ত {flight}-এর সরাসরি ট্র্যাকিং",
+
+  "error.fetchFlights": "ফ্লাইটের তথ্য আনা যায়নি",
+  "error.noFlights": "এলাকায় উপযুক্ত কোনো ফ্লাইট পাওয়া যায়নি",
+  "error.unknown": "অজানা ত্রুটি ঘটেছে",
+  "error.readTrack": "ট্র্যাক ফাইল পড়া যায়নি",
+
+  "status.unavailable": "ফ্লাইটের তথ্য পাওয়া যাচ্ছে না",
+  "status.noFlights":
+    "এখন {operator}-এর কোনো ফ্লাইট ট্র্যাক হচ্ছে না - {flight} সম্ভবত আকাশে নেই",
+  "status.notInFlight":
+    "{flight} এখন আকাশে নেই - ফ্লাইটটি পরে নির্ধারিত থাকতে পারে",
+
+  "unit.ft": "{value} ফুট",
+  "unit.mph": "{value} মাইল/ঘণ্টা",
+  "unit.km": "{value} কিমি",
+  "unit.fpm": "{value} ফুট/মিনিট",
+  "unit.percent": "{value}%",
+  "unit.degreesNorth": "{value}° উ",
+  "unit.degreesEast": "{value}° পূ",
+  "unit.ftShort": "ফুট",
+  "unit.mphShort": "মাইল/ঘণ্টা",
+  "unit.fpmShort": "ফুট/মিনিট",
+  "duration.hoursMinutes": "{hours} ঘ {minutes} মি",
+  "age.seconds": "{value} সেকেন্ড",
+  "age.minutes": "{value} মিনিট",
+  "age.hoursMinutes": "{hours} ঘণ্টা {minutes} মিনিট",
+  "time.utc": "{time} UTC",
+
+  "overview.following.one": "প্রতিনিধিদলের {count}টি ফ্লাইট দেশে ফিরছে",
+  "overview.following.other": "প্রতিনিধিদলের {count}টি ফ্লাইট দেশে ফিরছে",
+  "overview.allFlights": "সব ট্র্যাক করা ফ্লাইট",
+  "overview.unconfirmed": "অনিশ্চিত",
+  "overview.unconfirmedLabel": "{flight} (অনিশ্চিত)",
+  "overview.searching": "ফ্লাইটের তথ্য খোঁজা হচ্ছে...",
+  "overview.unknownCallsign": "অজানা",
+
+  "flight.allFlights": "সব ফ্লাইট",
+  "flight.tracking": "{name}-এর ঘরে ফেরার যাত্রা",
+  "flight.liveActive": "সরাসরি ট্র্যাকিং চালু",
+  "flight.lastSeen": "সর্বশেষ দেখা গেছে {age} আগে",
+  "flight.signalLost": "সিগন্যাল হারিয়েছে - সর্বশেষ দেখা গেছে {age} আগে",
+  "flight.showingEstimate": ", আনুমানিক অবস্থান দেখানো হচ্ছে",
+  "flight.unconfirmedMatch":
+    "অনিশ্চিত মিল: {flight} পাওয়া না যাওয়া পর্যন্ত {operator}-এর অন্য একটি ফ্লাইট দেখানো হচ্ছে",
+  "flight.searching": "ফ্লাইটের তথ্য খোঁজা হচ্ছে...",
+  "flight.viewDemo": "সিমুলেটেড ডেমো দেখুন",
+  "flight.callsign": "ফ্লাইট কলসাইন",
+  "flight.unconfirmedIdentity": "অনিশ্চিত - {flight} হিসেবে শনাক্ত হয়নি",
+  "flight.arrived": "পৌঁছেছে",
+  "flight.scheduledArrival": "নির্ধারিত আগমন",
+  "flight.estimatedArrival": "আনুমানিক আগমন",
+  "flight.landed": "অবতরণ করেছে",
+  "flight.remaining": "আর {duration} বাকি",
+  "flight.localTime": "স্থানীয় সময় {time}",
+  "flight.vsSchedule": "(সূচির তুলনায় {delay})",
+  "flight.confidence.high": "উচ্চ নির্ভরযোগ্যতা",
+  "flight.confidence.medium": "মাঝারি নির্ভরযোগ্যতা",
+  "flight.confidence.low": "কম নির্ভরযোগ্যতা",
+  "flight.progress": "অগ্রগতি",
+  "flight.replayTitle": "ফ্লাইট রিপ্লে",
+  "flight.liveTitle": "সরাসরি ফ্লাইট পথ",
+  "flight.replay": "রিপ্লে",
+  "flight.lastUpdated": "সর্বশেষ হালনাগাদ: {time}",
+  "flight.details": "ফ্লাইটের বিবরণ",
+  "flight.currentLocation": "বর্তমান অবস্থান",
+  "flight.searchingLocation": "খোঁজা হচ্ছে...",
+  "flight.locating": "অবস্থান নির্ণয় হচ্ছে...",
+  "flight.overWater": "সমুদ্রের উপর",
+  "flight.airspace": "আকাশসীমা: {fir}",
+  "flight.altitude": "উচ্চতা",
+  "flight.groundSpeed": "গতি",
+  "flight.offRoute": "পরিকল্পিত পথ থেকে দূরত্ব",
+  "flight.coordinates": "স্থানাঙ্ক",
+  "flight.lastKnownCoordinates": "সর্বশেষ জানা স্থানাঙ্ক",
+  "flight.routeInfo": "রুটের তথ্য",
+  "flight.departure": "প্রস্থান",
+  "flight.arrival": "আগমন",
+  "flight.welcome": "স্বাগতম!",
+  "flight.welcomeMessage":
+    "জাতি {name}-এর প্রত্যাবর্তনের অপেক্ষায়। শুভ যাত্রা!",
+
+  "arrival.approachTitle": "{airport}-এ অবতরণের চূড়ান্ত পথে",
+  "arrival.runway": "অবতরণের রানওয়ে",
+  "arrival.runwayLabel": "রানওয়ে {runway}",
+  "arrival.toTouchdown": "রানওয়ে স্পর্শ পর্যন্ত দূরত্ব",
+  "arrival.touchdownIn": "রানওয়ে স্পর্শ করবে",
+  "arrival.landedAt": "{airport}-এ অবতরণ করেছে",
+  "arrival.taxiing": "গেটের দিকে ট্যাক্সি করছে",
+  "arrival.atGate": "গেটে পৌঁছেছে",
+  "arrival.offBlock": "অফ-ব্লক",
+  "arrival.takeoff": "উড্ডয়ন",
+  "arrival.touchdown": "রানওয়ে স্পর্শ",
+  "arrival.onBlock": "অন-ব্লক",
+  "arrival.flightTime": "উড্ডয়নকাল",
+  "arrival.blockTime": "ব্লক টাইম",
+
+  "embed.openTracker": "সরাসরি ট্র্যাকার খুলুন",
+
+  "map.lastReported": "সর্বশেষ জানানো অবস্থান",
+  "map.dayNight": "দিন ও রাত",
+  "map.sun": "সূর্য ঠিক মাথার উপরে",
+  "map.firs": "এফআইআর সীমানা",
+  "aircraft.estimated": "আনুমানিক অবস্থান",
+  "aircraft.altitude": "উচ্চতা: {value}",
+  "aircraft.speed": "গতি: {value}",
+  "aircraft.verticalRate": "উল্লম্ব গতি: {value}",
+  "aircraft.squawk": "স্কোয়াক: {value}",
+
+  "replay.source": "রিপ্লে:",
+  "replay.recorded": "রেকর্ড করা ফ্লাইট",
+  "replay.imported": "আমদানি করা ট্র্যাক",
+  "replay.backToLive": "সরাসরিতে ফিরুন",
+  "replay.rewind": "শুরুতে যান",
+  "replay.play": "চালান",
+  "replay.pause": "থামান",
+  "replay.position": "রিপ্লের অবস্থান",
+  "replay.speed": "গতি",
+  "replay.speedFactor": "{value}x",
+  "replay.noTrack":
+    "এখনো কোনো অবস্থান রেকর্ড হয়নি - রিপ্লে করতে একটি ট্র্যাক ফাইল খুলুন।",
+
+  "files.export": "এক্সপোর্ট:",
+  "files.import": "রুট বা ট্র্যাক ইমপোর্ট করুন",
+  "files.resetRoute": "পরিকল্পিত রুট ব্যবহার করুন",
+  "files.error.unsupported": "শুধু GPX, KML ও GeoJSON ফাইল পড়া যায়",
+  "files.error.invalidJson": "ফাইলটি সঠিক JSON নয়",
+  "files.error.noSamples": "ফাইলে অবস্থানের কোনো তালিকা নেই",
+  "files.error.tooShort":
+    "ফাইলে অন্তত দুটি সময়যুক্ত অবস্থানের ট্র্যাক বা অন্তত দুটি পয়েন্টের রুট থাকতে হবে",
+
+  "profile.title": "ফ্লাইট প্রোফাইল",
+  "profile.empty": "অবস্থান রেকর্ড হলে উচ্চতা ও গতির প্রোফাইল এখানে দেখা যাবে।",
+  "profile.time": "সময়",
+  "profile.distance": "দূরত্ব",
+  "profile.altitude": "উচ্চতা",
+  "profile.groundSpeed": "গতি",
+  "profile.verticalRate": "উল্লম্ব গতি",
+
+  "timeline.title": "সময়রেখা",
+  "timeline.empty":
+    "ফ্লাইট এগোনোর সাথে সাথে গুরুত্বপূর্ণ মুহূর্তগুলো এখানে দেখা যাবে।",
+  "timeline.alertsOn": "সতর্কতা চালু",
+  "timeline.notifyMe": "আমাকে জানান",
+  "timeline.blocked": "আপনার ব্রাউজারের সেটিংসে নোটিফিকেশন বন্ধ করা আছে",
+  "timeline.notifyHint":
+    "এই পাতা খোলা থাকলে উড্ডয়ন, গন্তব্য দেশে প্রবেশ ও অবতরণের সময় আমাকে জানান",
+  "timeline.alertsNeedTab":
+    "এই পাতা ব্রাউজারের কোনো ট্যাবে খোলা থাকলেই কেবল সতর্কতা আসবে",
+
+  "milestone.takeoff": "উড্ডয়ন",
+  "milestone.top-of-climb": "আরোহণ সম্পন্ন",
+  "milestone.country": "{country}-এর উপর দিয়ে",
+  "milestone.destination-country": "{country}-এর আকাশসীমায় প্রবেশ",
+  "milestone.top-of-descent": "অবতরণের জন্য নামা শুরু",
+  "milestone.landing": "অবতরণ",
+  "milestone.signal-lost": "সিগন্যাল হারিয়েছে",
+  "milestone.signal-regained": "সিগন্যাল ফিরে এসেছে",
+
+  "anomaly.emergency-squawk": "জরুরি স্কোয়াক {squawk}",
+  "anomaly.diversion": "সম্ভাব্য পথ পরিবর্তন",
+  "anomaly.holding": "হোল্ডিং প্যাটার্ন",
+  "anomaly.altitude-loss": "দ্রুত উচ্চতা হ্রাস",
+  "anomaly.reason.off-route": "পরিকল্পিত পথ থেকে {km} কিমি দূরে",
+  "anomaly.reason.heading-away":
+    "{minutes} মিনিট ধরে গন্তব্যের উল্টো দিকে যাচ্ছে",
+  "anomaly.reason.holding": "পথে না এগিয়ে চক্কর দিচ্ছে",
+  "anomaly.reason.altitude-loss": "{seconds} সেকেন্ডে {feet} ফুট নেমেছে",
+  "anomaly.squawk.7500": "বেআইনি হস্তক্ষেপ",
+  "anomaly.squawk.7600": "রেডিও বিকল",
+  "anomaly.squawk.7700": "সাধারণ জরুরি অবস্থা",
+  "anomaly.cleared": "{title} - শেষ হয়েছে",
+  "anomaly.since": "{detail} • {start} থেকে",
+  "anomaly.between": "{detail} • {start} থেকে {end} পর্যন্ত",
+};
+
+export default bn;
@@ -0,0 +1,193 @@
+// English messages. Other catalogs must have every key in this one.
+// {name} placeholders are filled in by translate(); numbers passed for them
+// are formatted for the locale.
+const en = {
+  "app.title": "Leader Homecoming",
+  "app.footer":
+    "Real-time flight tracking powered by OpenSky Network • Leader Homecoming 2025",
+  "app.simulated": "Simulated data for demonstration",
+  "app.language": "Language",
+
+  "meta.title": "Leader Homecoming - Flight Tracker",
+  "meta.description": "Real-time flight tracking for Leader Homecoming",
+  "meta.flightTitle": "{flight} - {passenger} | Leader Homecoming",
+  "meta.flightDescription":
+    "Real-time tracking of {flight} from {origin} to {destination}",
+
+  "error.fetchFlights": "Failed to fetch flight data",
+  "error.noFlights": "No suitable flights found in the area",
+  "error.unknown": "Unknown error occurred",
+  "error.readTrack": "Could not read track file",
+
+  "status.unavailable": "Flight data unavailable",
+  "status.noFlights":
+    "No {operator} flights currently tracked - {flight} may not be in the air",
+  "status.notInFlight":
+    "{flight} not currently in flight - Flight may be scheduled later",
+
+  "unit.ft": "{value} ft",
+  "unit.mph": "{value} mph",
+  "unit.km": "{value} km",
+  "unit.fpm": "{value} ft/min",
+  "unit.percent": "{value}%",
+  "unit.degreesNorth": "{value}°N",
+  "unit.degreesEast": "{value}°E",
+  "unit.ftShort": "ft",
+  "unit.mphShort": "mph",
+  "unit.fpmShort": "ft/min",
+  "duration.hoursMinutes": "{hours}h {minutes}m",
+  "age.seconds": "{value} s",
+  "age.minutes": "{value} min",
+  "age.hoursMinutes": "{hours} h {minutes} min",
+  "time.utc": "{time} UTC",
+
+  "overview.following.one": "Following {count} delegation flight home",
+  "overview.following.other": "Following {count} delegation flights home",
+  "overview.allFlights": "All Tracked Flights",
+  "overview.unconfirmed": "Unconfirmed",
+  "overview.unconfirmedLabel": "{flight} (unconfirmed)",
+  "overview.searching": "Searching for flight data...",
+  "overview.unknownCallsign": "Unknown",
+
+  "flight.allFlights": "All flights",
+  "flight.tracking": "Tracking {name}'s Journey Home",
+  "flight.liveActive": "Live Tracking Active",
+  "flight.lastSeen": "Last seen {age} ago",
+  "flight.signalLost": "Signal lost - last seen {age} ago",
+  "flight.showingEstimate": ", showing estimated position",
+  "flight.unconfirmedMatch":
+    "Unconfirmed match: showing another {operator} flight while {flight} is not found",
+  "flight.searching": "Searching for flight data...",
+  "flight.viewDemo": "View simulated demo",
+  "flight.callsign": "Flight Callsign",
+  "flight.unconfirmedIdentity": "Unconfirmed - not identified as {flight}",
+  "flight.arrived": "Arrived",
+  "flight.scheduledArrival": "Scheduled Arrival",
+  "flight.estimatedArrival": "Estimated Arrival",
+  "flight.landed": "Landed",
+  "flight.remaining": "{duration} remaining",
+  "flight.localTime": "{time} local time",
+  "flight.vsSchedule": "({delay} vs schedule)",
+  "flight.confidence.high": "High confidence",
+  "flight.confidence.medium": "Medium confidence",
+  "flight.confidence.low": "Low confidence",
+  "flight.progress": "Progress",
+  "flight.replayTitle": "Flight Replay",
+  "flight.liveTitle": "Live Flight Path",
+  "flight.replay": "Replay",
+  "flight.lastUpdated": "Last updated: {time}",
+  "flight.details": "Flight Details",
+  "flight.currentLocation": "Current Location",
+  "flight.searchingLocation": "Searching...",
+  "flight.locating": "Locating...",
+  "flight.overWater": "Over water",
+  "flight.airspace": "Airspace: {fir}",
+  "flight.altitude": "Altitude",
+  "flight.groundSpeed": "Ground Speed",
+  "flight.offRoute": "Off Planned Route",
+  "flight.coordinates": "Coordinates",
+  "flight.lastKnownCoordinates": "Last Known Coordinates",
+  "flight.routeInfo": "Route Information",
+  "flight.departure": "Departure",
+  "flight.arrival": "Arrival",
+  "flight.welcome": "Welcome Home!",
+  "flight.welcomeMessage":
+    "The nation awaits the return of {name}. Safe travels!",
+
+  "arrival.approachTitle": "Final approach into {airport}",
+  "arrival.runway": "Landing runway",
+  "arrival.runwayLabel": "RWY {runway}",
+  "arrival.toTouchdown": "Distance to touchdown",
+  "arrival.touchdownIn": "Touchdown in",
+  "arrival.landedAt": "Landed at {airport}",
+  "arrival.taxiing": "Taxiing to the gate",
+  "arrival.atGate": "At the gate",
+  "arrival.offBlock": "Off-block",
+  "arrival.takeoff": "Takeoff",
+  "arrival.touchdown": "Touchdown",
+  "arrival.onBlock": "On-block",
+  "arrival.flightTime": "Flight time",
+  "arrival.blockTime": "Block time",
+
+  "embed.openTracker": "Open live tracker",
+
+  "map.lastReported": "Last reported position",
+  "map.dayNight": "Day and night",
+  "map.sun": "Sun directly overhead",
+  "map.firs": "FIR boundaries",
+  "aircraft.estimated": "Estimated position",
+  "aircraft.altitude": "Altitude: {value}",
+  "aircraft.speed": "Speed: {value}",
+  "aircraft.verticalRate": "Vertical rate: {value}",
+  "aircraft.squawk": "Squawk: {value}",
+
+  "replay.source": "Replay:",
+  "replay.recorded": "Recorded flight",
+  "replay.imported": "Imported track",
+  "replay.backToLive": "Back to live",
+  "replay.rewind": "Rewind",
+  "replay.play": "Play",
+  "replay.pause": "Pause",
+  "replay.position": "Replay position",
+  "replay.speed": "Speed",
+  "replay.speedFactor": "{value}x",
+  "replay.noTrack":
+    "No recorded positions yet - import a track file to replay it.",
+
+  "files.export": "Export:",
+  "files.import": "Import route or track",
+  "files.resetRoute": "Use planned route",
+  "files.error.unsupported": "Only GPX, KML and GeoJSON files can be read",
+  "files.error.invalidJson": "The file is not valid JSON",
+  "files.error.noSamples": "The file has no list of positions",
+  "files.error.tooShort":
+    "The file needs a track of at least two timed positions or a route of at least two points",
+
+  "profile.title": "Flight Profile",
+  "profile.empty":
+    "The altitude and speed profile appears once positions are recorded.",
+  "profile.time": "Time",
+  "profile.distance": "Distance",
+  "profile.altitude": "Altitude",
+  "profile.groundSpeed": "Ground speed",
+  "profile.verticalRate": "Vertical rate",
+
+  "timeline.title": "Timeline",
+  "timeline.empty": "Milestones appear here as the flight progresses.",
+  "timeline.alertsOn": "Alerts on",
+  "timeline.notifyMe": "Notify me",
+  "timeline.blocked": "Notifications are blocked in your browser settings",
+  "timeline.notifyHint":
+    "Notify me on takeoff, entering the destination country and landing while this page is open",
+  "timeline.alertsNeedTab":
+    "Alerts only arrive while this page stays open in a browser tab",
+
+  "milestone.takeoff": "Takeoff",
+  "milestone.top-of-climb": "Top of climb",
+  "milestone.country": "Over {country}",
+  "milestone.destination-country": "Entered {country} airspace",
+  "milestone.top-of-descent": "Top of descent",
+  "milestone.landing": "Landing",
+  "milestone.signal-lost": "Signal lost",
+  "milestone.signal-regained": "Signal regained",
+
+  "anomaly.emergency-squawk": "Emergency squawk {squawk}",
+  "anomaly.diversion": "Possible diversion",
+  "anomaly.holding": "Holding pattern",
+  "anomaly.altitude-loss": "Rapid descent",
+  "anomaly.reason.off-route": "{km} km off the planned route",
+  "anomaly.reason.heading-away":
+    "Heading away from the destination for {minutes} min",
+  "anomaly.reason.holding": "Circling instead of following the route",
+  "anomaly.reason.altitude-loss": "Lost {feet} ft in {seconds} s",
+  "anomaly.squawk.7500": "Unlawful interference",
+  "anomaly.squawk.7600": "Radio failure",
+  "anomaly.squawk.7700": "General emergency",
+  "anomaly.cleared": "{title} - cleared",
+  "anomaly.since": "{detail} • since {start}",
+  "anomaly.between": "{detail} • since {start}, until {end}",
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
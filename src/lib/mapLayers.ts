@@ -0,0 +1,167 @@
+// Base maps and tile overlays offered in the map's layer control. Loaded
+// from JSON (see lib/config.ts) so a local tile server or weather radar can
+// be used without code changes; without a config the public OpenStreetMap
+// tiles are the only base map.
+
+interface LayerSourceBase {
+  name: string; // label in the layer control, unique across all layers
+  attribution?: string; // HTML
+  opacity?: number; // 0-1
+  maxZoom?: number;
+}
+
+export interface TileSource extends LayerSourceBase {
+  type: "tile";
+  url: string; // template, e.g. "https://tiles.example.org/{z}/{x}/{y}.png"
+}
+
+export interface WmsSource extends LayerSourceBase {
+  type: "wms";
+  url: string; // service endpoint, without query parameters
+  layers: string; // comma separated WMS layer names
+  format?: string; // defaults to "image/png"
+  transparent?: boolean; // defaults to true
+}
+
+export type LayerSource = TileSource | WmsSource;
+
+export type OverlaySource = LayerSource & {
+  enabled?: boolean; // shown when the map opens
+};
+
+export interface MapLayersConfig {
+  baseMaps: LayerSource[]; // the first is shown when the map opens
+  overlays: OverlaySource[];
+}
+
+export const DEFAULT_MAP_LAYERS: MapLayersConfig = {
+  baseMaps: [
+    {
+      type: "tile",
+      name: "OpenStreetMap",
+      url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+      attribution:
+        '&copy; <a href="https://www.openstreetmap.org/">OpenStreetMap</a> contributors',
+    },
+  ],
+  overlays: [],
+};
+
+export class MapLayersConfigError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid map layers config (${source}):\n- ${issues.join("\n- ")}`);
+    this.name = "MapLayersConfigError";
+    this.issues = issues;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const checkSource = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  const type = value.type ?? "tile";
+  if (type !== "tile" && type !== "wms") {
+    issues.push(`${path}.type must be "tile" or "wms"`);
+  }
+  if (!isNonEmptyString(value.name)) issues.push(`${path}.name is required`);
+  if (!isNonEmptyString(value.url)) {
+    issues.push(`${path}.url is required`);
+  } else if (
+    type === "tile" &&
+    !["{z}", "{x}", "{y}"].every((part) => String(value.url).includes(part))
+  ) {
+    issues.push(`${path}.url must contain {z}, {x} and {y}`);
+  }
+  if (type === "wms" && !isNonEmptyString(value.layers)) {
+    issues.push(`${path}.layers is required for WMS layers`);
+  }
+
+  for (const key of ["attribution", "format"]) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      issues.push(`${path}.${key} must be a string`);
+    }
+  }
+  for (const key of ["transparent", "enabled"]) {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") {
+      issues.push(`${path}.${key} must be true or false`);
+    }
+  }
+  if (
+    value.opacity !== undefined &&
+    !(
+      typeof value.opacity === "number" &&
+      value.opacity >= 0 &&
+      value.opacity <= 1
+    )
+  ) {
+    issues.push(`${path}.opacity must be a number between 0 and 1`);
+  }
+  if (
+    value.maxZoom !== undefined &&
+    !(Number.isInteger(value.maxZoom) && (value.maxZoom as number) >= 0)
+  ) {
+    issues.push(`${path}.maxZoom must be a whole number`);
+  }
+};
+
+const checkList = (value: unknown, key: string, issues: string[]) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${key} must be an array`);
+    return;
+  }
+  value.forEach((source, i) => checkSource(source, `${key}[${i}]`, issues));
+};
+
+// Layers without a type are tile layers
+const withType = <T extends LayerSource>(source: T): T => ({
+  ...source,
+  type: source.type ?? "tile",
+});
+
+export const validateMapLayers = (
+  value: unknown,
+  source = "config"
+): MapLayersConfig => {
+  if (!isObject(value)) {
+    throw new MapLayersConfigError(source, ["config must be an object"]);
+  }
+
+  const issues: string[] = [];
+  checkList(value.baseMaps, "baseMaps", issues);
+  checkList(value.overlays, "overlays", issues);
+  if (issues.length > 0) throw new MapLayersConfigError(source, issues);
+
+  const config: MapLayersConfig = {
+    baseMaps: ((value.baseMaps ?? []) as LayerSource[]).map(withType),
+    overlays: ((value.overlays ?? []) as OverlaySource[]).map(withType),
+  };
+  // Overlays alone keep the default base map
+  if (config.baseMaps.length === 0) {
+    config.baseMaps = DEFAULT_MAP_LAYERS.baseMaps;
+  }
+
+  // The layer control tells layers apart by name
+  const seen = new Set<string>();
+  for (const layer of [...config.baseMaps, ...config.overlays]) {
+    if (seen.has(layer.name)) {
+      issues.push(`layer name ${layer.name} is used more than once`);
+    }
+    seen.add(layer.name);
+  }
+  if (issues.length > 0) throw new MapLayersConfigError(source, issues);
+
+  return config;
+};
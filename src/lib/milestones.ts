@@ -0,0 +1,152 @@
+import type { TrackSample } from "./flightTypes";
+import { SIGNAL_LOST_AFTER_S } from "./freshness";
+import { projectOntoRoute, Route } from "./geo";
+
+// Milestones derived from a flight's recorded positions. Detection only
+// looks at the samples themselves, so the same track always gives the same
+// milestones, in the browser and on the server alike.
+
+export type MilestoneKind =
+  | "takeoff"
+  | "top-of-climb"
+  | "country"
+  | "destination-country"
+  | "top-of-descent"
+  | "landing"
+  | "signal-lost"
+  | "signal-regained";
+
+export interface Milestone {
+  id: string; // stable across recomputation, e.g. "takeoff-1766580000"
+  kind: MilestoneKind;
+  time: number; // unix seconds
+  title: string;
+  // Country entered, for the country milestones
+  country?: string;
+  lat: number;
+  lon: number;
+}
+
+export interface MilestoneOptions {
+  route: Route;
+  destinationCountry: string; // e.g. "Bangladesh"
+  // Country a position is over, null over the sea or while unknown
+  locate?: (sample: TrackSample) => string | null;
+  now?: number; // unix seconds; reports a signal loss still ongoing
+}
+
+// Climb and descent are judged over this much time ahead of a sample
+const LEVEL_WINDOW_S = 5 * 60;
+const CRUISE_MIN_ALTITUDE_M = 6000;
+const LEVEL_TOLERANCE_M = 150;
+const DESCENT_DROP_M = 900;
+// Step descents en route aren't the top of descent
+const DESCENT_MAX_REMAINING_KM = 500;
+
+const milestone = (
+  kind: MilestoneKind,
+  sample: TrackSample,
+  title: string,
+  country?: string
+): Milestone => ({
+  id: `${kind}-${sample.time}`,
+  kind,
+  time: sample.time,
+  title,
+  ...(country ? { country } : {}),
+  lat: sample.lat,
+  lon: sample.lon,
+});
+
+// First sample at least `seconds` after samples[i], if the track has one
+const sampleAfter = (samples: TrackSample[], i: number, seconds: number) => {
+  for (let j = i + 1; j < samples.length; j++) {
+    if (samples[j].time - samples[i].time >= seconds) return samples[j];
+  }
+  return undefined;
+};
+
+export const detectMilestones = (
+  samples: TrackSample[],
+  { route, destinationCountry, locate, now }: MilestoneOptions
+): Milestone[] => {
+  const milestones: Milestone[] = [];
+  let climbedOut = false;
+  let descending = false;
+  let country: string | null = null;
+
+  samples.forEach((sample, i) => {
+    const previous = samples[i - 1];
+    const altitude = sample.altitude ?? 0;
+
+    if (previous && !previous.onGround && !sample.onGround) {
+      if (sample.time - previous.time > SIGNAL_LOST_AFTER_S) {
+        milestones.push(
+          milestone("signal-lost", previous, "Signal lost"),
+          milestone("signal-regained", sample, "Signal regained")
+        );
+      }
+    }
+
+    if (!sample.onGround && (!previous || previous.onGround)) {
+      // A track that starts in the air only counts if it starts low
+      if (previous || altitude < 1500) {
+        milestones.push(milestone("takeoff", sample, "Takeoff"));
+      }
+    }
+
+    if (!sample.onGround && !climbedOut && altitude >= CRUISE_MIN_ALTITUDE_M) {
+      const later = sampleAfter(samples, i, LEVEL_WINDOW_S);
+      if (later && (later.altitude ?? 0) - altitude < LEVEL_TOLERANCE_M) {
+        climbedOut = true;
+        milestones.push(milestone("top-of-climb", sample, "Top of climb"));
+      }
+    }
+
+    if (climbedOut && !descending && !sample.onGround) {
+      const later = sampleAfter(samples, i, LEVEL_WINDOW_S);
+      if (
+        later &&
+        altitude - (later.altitude ?? 0) >= DESCENT_DROP_M &&
+        projectOntoRoute(route, sample).remainingKm < DESCENT_MAX_REMAINING_KM
+      ) {
+        descending = true;
+        milestones.push(milestone("top-of-descent", sample, "Top of descent"));
+      }
+    }
+
+    if (locate && !sample.onGround) {
+      const current = locate(sample);
+      if (current && current !== country) {
+        milestones.push(
+          current === destinationCountry
+            ? milestone(
+                "destination-country",
+                sample,
+                `Entered ${current} airspace`,
+                current
+              )
+            : milestone("country", sample, `Over ${current}`, current)
+        );
+        country = current;
+      }
+    }
+
+    if (sample.onGround && previous && !previous.onGround) {
+      milestones.push(milestone("landing", sample, "Landing"));
+    }
+  });
+
+  // Still airborne but nothing heard for a while
+  const last = samples[samples.length - 1];
+  if (
+    last &&
+    !last.onGround &&
+    now !== undefined &&
+    now - last.time > SIGNAL_LOST_AFTER_S
+  ) {
+    milestones.push(milestone("signal-lost", last, "Signal lost"));
+  }
+
+  return milestones.sort((a, b) => a.time - b.time);
+};
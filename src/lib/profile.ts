@@ -0,0 +1,98 @@
+import type { TrackSample } from "./flightTypes";
+import { distanceKm, GeoPoint } from "./geo";
+
+// Vertical profile of a recorded track: altitude, ground speed and vertical
+// rate against time and distance flown, for the profile charts.
+
+// Vertical rate is taken over at least this long, so the quantised
+// altitudes of samples seconds apart don't read as spikes
+const RATE_WINDOW_S = 60;
+// Don't derive a rate across a coverage gap
+const MAX_RATE_GAP_S = 10 * 60;
+
+export type ProfileAxis = "time" | "distance";
+
+export interface ProfilePoint extends GeoPoint {
+  time: number; // unix seconds
+  distanceKm: number; // flown since the first sample
+  altitude: number | null; // metres
+  velocity: number | null; // metres per second
+  verticalRate: number | null; // metres per second, positive climbing
+}
+
+// Climb or descent rate around samples[i], from the nearest samples at
+// least RATE_WINDOW_S / 2 either side of it that have an altitude
+const verticalRateAt = (samples: TrackSample[], i: number): number | null => {
+  const { time } = samples[i];
+  let before = i;
+  while (
+    before > 0 &&
+    (samples[before].altitude === null ||
+      time - samples[before].time < RATE_WINDOW_S / 2)
+  ) {
+    before -= 1;
+  }
+  let after = i;
+  while (
+    after < samples.length - 1 &&
+    (samples[after].altitude === null ||
+      samples[after].time - time < RATE_WINDOW_S / 2)
+  ) {
+    after += 1;
+  }
+
+  const a = samples[before];
+  const b = samples[after];
+  const seconds = b.time - a.time;
+  if (
+    a.altitude === null ||
+    b.altitude === null ||
+    seconds <= 0 ||
+    seconds > MAX_RATE_GAP_S
+  ) {
+    return null;
+  }
+  return (b.altitude - a.altitude) / seconds;
+};
+
+// Assumes samples are sorted by time
+export const buildProfile = (samples: TrackSample[]): ProfilePoint[] => {
+  let flown = 0;
+  return samples.map((s, i) => {
+    if (i > 0) flown += distanceKm(samples[i - 1], s);
+    return {
+      time: s.time,
+      lat: s.lat,
+      lon: s.lon,
+      distanceKm: flown,
+      altitude: s.altitude,
+      velocity: s.velocity,
+      verticalRate: s.onGround ? 0 : verticalRateAt(samples, i),
+    };
+  });
+};
+
+export const profileX = (point: ProfilePoint, axis: ProfileAxis) =>
+  axis === "time" ? point.time : point.distanceKm;
+
+// The point nearest to `x` on the given axis, along which points are sorted
+export const nearestProfilePoint = (
+  points: ProfilePoint[],
+  axis: ProfileAxis,
+  x: number
+): ProfilePoint | null => {
+  if (points.length === 0) return null;
+
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (profileX(points[mid], axis) < x) lo = mid + 1;
+    else hi = mid;
+  }
+  const previous = points[lo - 1];
+  return previous &&
+    x - profileX(previous, axis) < profileX(points[lo], axis) - x
+    ? previous
+    : points[lo];
+};
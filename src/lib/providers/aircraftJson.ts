@@ -0,0 +1,96 @@
+import type { FlightState } from "../flightTypes";
+import { feetToMetres, fpmToMs, knotsToMs } from "../units";
+import { FlightDataProvider, ProviderError } from "./types";
+
+// Adapter for a local ADS-B receiver publishing dump1090 / readsb style
+// aircraft.json, e.g. http://receiver.local/tar1090/data/aircraft.json
+
+interface ReceiverAircraft {
+  hex?: string;
+  flight?: string;
+  lat?: number;
+  lon?: number;
+  alt_baro?: number | "ground";
+  gs?: number; // ground speed, knots
+  track?: number;
+  baro_rate?: number; // feet per minute
+  squawk?: string;
+  seen?: number; // seconds since any message
+  seen_pos?: number; // seconds since the last position
+}
+
+export interface AircraftJson {
+  now: number; // unix seconds
+  aircraft: ReceiverAircraft[];
+}
+
+export const isAircraftJson = (data: unknown): data is AircraftJson =>
+  typeof data === "object" &&
+  data !== null &&
+  typeof (data as AircraftJson).now === "number" &&
+  Array.isArray((data as AircraftJson).aircraft);
+
+// Converts receiver units (feet, knots, feet per minute, "seconds ago") to
+// FlightState units
+export const parseAircraftJson = (data: AircraftJson): FlightState[] =>
+  data.aircraft.flatMap((a) => {
+    if (typeof a.lat !== "number" || typeof a.lon !== "number" || !a.hex) {
+      return [];
+    }
+
+    // readsb marks TIS-B/other non-ICAO addresses with a leading "~"
+    const icao24 = a.hex.replace(/^~/, "").toLowerCase();
+    const onGround = a.alt_baro === "ground";
+    return [
+      {
+        icao24,
+        callsign: a.flight?.trim() ?? "",
+        originCountry: "",
+        timePosition:
+          typeof a.seen_pos === "number"
+            ? Math.round(data.now - a.seen_pos)
+            : null,
+        lastContact: Math.round(data.now - (a.seen ?? 0)),
+        lat: a.lat,
+        lon: a.lon,
+        // Unknown stays unknown; a made-up 0 reads as a rapid descent
+        baroAltitude:
+          typeof a.alt_baro === "number"
+            ? feetToMetres(a.alt_baro)
+            : a.alt_baro === "ground"
+              ? 0
+              : null,
+        velocity: typeof a.gs === "number" ? knotsToMs(a.gs) : null,
+        trueTrack: typeof a.track === "number" ? a.track : null,
+        verticalRate:
+          typeof a.baro_rate === "number" ? fpmToMs(a.baro_rate) : null,
+        squawk: a.squawk ?? null,
+        onGround,
+      },
+    ];
+  });
+
+export const createAircraftJsonProvider = (
+  url: string
+): FlightDataProvider => ({
+  name: "aircraft-json",
+  cacheTtlMs: 5000,
+  getStates: async () => {
+    const response = await fetch(url, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new ProviderError(
+        `Receiver responded with ${response.status}`,
+        response.status
+      );
+    }
+
+    const data: unknown = await response.json();
+    if (!isAircraftJson(data)) {
+      throw new ProviderError("Receiver did not return aircraft.json data");
+    }
+    return parseAircraftJson(data);
+  },
+});
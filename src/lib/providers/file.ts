@@ -0,0 +1,34 @@
+import { readFile } from "node:fs/promises";
+import { isAircraftJson, parseAircraftJson } from "./aircraftJson";
+import { parseStatesResponse, toFlightState } from "./stateVector";
+import { FlightDataProvider, ProviderError } from "./types";
+
+// Adapter for a JSON file on disk, re-read on every poll so another process
+// (or a test) can keep it up to date. Accepts either an OpenSky
+// /states/all response or a dump1090 / readsb aircraft.json.
+export const createFileProvider = (file: string): FlightDataProvider => ({
+  name: "file",
+  cacheTtlMs: 5000,
+  getStates: async () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await readFile(file, "utf8"));
+    } catch (err) {
+      throw new ProviderError(
+        `Could not read flight data file: ${(err as Error).message}`
+      );
+    }
+
+    if (isAircraftJson(data)) return parseAircraftJson(data);
+
+    if (data && typeof data === "object" && "states" in data) {
+      return parseStatesResponse(data).states.flatMap(
+        (vector) => toFlightState(vector) ?? []
+      );
+    }
+
+    throw new ProviderError(
+      "Flight data file is neither OpenSky states nor aircraft.json"
+    );
+  },
+});
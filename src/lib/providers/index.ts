@@ -0,0 +1,53 @@
+import path from "node:path";
+import { createAircraftJsonProvider } from "./aircraftJson";
+import { createFileProvider } from "./file";
+import { openSkyProvider } from "./opensky";
+import type { FlightDataProvider, ProviderName } from "./types";
+
+// Providers are tried in FLIGHT_PROVIDERS order (comma separated), e.g.
+// "aircraft-json,opensky" to prefer a local receiver and fall back to
+// OpenSky when it has no contact with the aircraft.
+const DEFAULT_PROVIDERS = "opensky";
+
+const factories: Record<ProviderName, () => FlightDataProvider> = {
+  opensky: () => openSkyProvider,
+  "aircraft-json": () => {
+    const url = process.env.AIRCRAFT_JSON_URL;
+    if (!url) {
+      throw new Error("AIRCRAFT_JSON_URL is required for aircraft-json");
+    }
+    return createAircraftJsonProvider(url);
+  },
+  file: () => {
+    const file = process.env.FLIGHT_DATA_FILE;
+    if (!file) throw new Error("FLIGHT_DATA_FILE is required for file");
+    return createFileProvider(path.resolve(process.cwd(), file));
+  },
+};
+
+let cached: FlightDataProvider[] | null = null;
+
+const isProviderName = (name: string): name is ProviderName =>
+  Object.hasOwn(factories, name);
+
+// Throws on an unknown provider name or missing provider settings
+export const getProviders = (): FlightDataProvider[] => {
+  if (!cached) {
+    const names = (process.env.FLIGHT_PROVIDERS || DEFAULT_PROVIDERS)
+      .split(",")
+      .map((n) => n.trim())
+      .filter(Boolean);
+
+    cached = names.map((name) => {
+      if (!isProviderName(name)) {
+        throw new Error(
+          `Unknown flight data provider "${name}" in FLIGHT_PROVIDERS`
+        );
+      }
+      return factories[name]();
+    });
+  }
+  return cached;
+};
+
+export type { BoundingBox, FlightDataProvider, ProviderName } from "./types";
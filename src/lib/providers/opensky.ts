@@ -0,0 +1,72 @@
+import {
+  parseStatesResponse,
+  StatesResponse,
+  toFlightState,
+} from "./stateVector";
+import { BoundingBox, FlightDataProvider, ProviderError } from "./types";
+
+// Minimal server-side client for the OpenSky Network REST API.
+// The base URL is configurable so tests can point it at a local stub server.
+const OPENSKY_BASE_URL = (
+  process.env.OPENSKY_BASE_URL || "https://opensky-network.org/api"
+).replace(/\/+$/, "");
+
+export class OpenSkyError extends ProviderError {
+  constructor(message: string, status: number, retryAfter: number | null) {
+    super(message, status, retryAfter);
+    this.name = "OpenSkyError";
+  }
+}
+
+const parseRetryAfter = (headers: Headers): number | null => {
+  // OpenSky uses its own header on 429s; fall back to the standard one
+  const raw =
+    headers.get("x-rate-limit-retry-after-seconds") ??
+    headers.get("retry-after");
+  if (!raw) return null;
+  const seconds = Number(raw);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+export const fetchStates = async (
+  bbox: BoundingBox
+): Promise<StatesResponse> => {
+  const params = new URLSearchParams({
+    lamin: String(bbox.lamin),
+    lomin: String(bbox.lomin),
+    lamax: String(bbox.lamax),
+    lomax: String(bbox.lomax),
+  });
+
+  const response = await fetch(`${OPENSKY_BASE_URL}/states/all?${params}`, {
+    cache: "no-store",
+    signal: AbortSignal.timeout(15000),
+  });
+
+  if (!response.ok) {
+    const message =
+      response.status === 429
+        ? "OpenSky rate limit reached"
+        : `OpenSky responded with ${response.status}`;
+    throw new OpenSkyError(
+      message,
+      response.status,
+      parseRetryAfter(response.headers)
+    );
+  }
+
+  const data = parseStatesResponse(await response.json());
+  if (data.skipped > 0) {
+    console.warn(`Skipped ${data.skipped} malformed OpenSky state vectors`);
+  }
+  return data;
+};
+
+export const openSkyProvider: FlightDataProvider = {
+  name: "opensky",
+  cacheTtlMs: Number(process.env.OPENSKY_CACHE_TTL_MS) || 20000,
+  getStates: async (area) => {
+    const data = await fetchStates(area);
+    return data.states.flatMap((vector) => toFlightState(vector) ?? []);
+  },
+};
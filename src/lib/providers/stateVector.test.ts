@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { metresToFeet, msToMph } from "../units";
+import emptyResponse from "./__fixtures__/opensky-empty.json";
+import statesResponse from "./__fixtures__/opensky-states.json";
+import {
+  parseStateVector,
+  parseStatesResponse,
+  toFlightState,
+} from "./stateVector";
+import { ProviderError } from "./types";
+
+// Rows of the recorded /states/all response, see __fixtures__
+const row = (i: number) => statesResponse.states[i];
+
+describe("parseStatesResponse", () => {
+  it("keeps the well-formed rows and counts the rest", () => {
+    const { time, states, skipped } = parseStatesResponse(statesResponse);
+    expect(time).toBe(1735732800);
+    expect(states.map((s) => s.icao24)).toEqual([
+      "70c0cd",
+      "4ca87c",
+      "a0b1c2",
+      "3c6444",
+      "c0ffee",
+      "abc123",
+    ]);
+    expect(skipped).toBe(6);
+  });
+
+  it("reads null states as no aircraft", () => {
+    expect(parseStatesResponse(emptyResponse)).toEqual({
+      time: 1735732800,
+      states: [],
+      skipped: 0,
+    });
+  });
+
+  it("rejects a response without a time or states list", () => {
+    expect(() => parseStatesResponse(null)).toThrow(ProviderError);
+    expect(() => parseStatesResponse({ states: [] })).toThrow(ProviderError);
+    expect(() => parseStatesResponse({ time: 1, states: {} })).toThrow(
+      ProviderError
+    );
+  });
+});
+
+describe("parseStateVector", () => {
+  it("reads every field of a full row", () => {
+    expect(parseStateVector(row(0))).toEqual({
+      icao24: "70c0cd",
+      callsign: "BBC084",
+      originCountry: "Bangladesh",
+      timePosition: 1735732798,
+      lastContact: 1735732799,
+      lon: 90.1923,
+      lat: 24.1012,
+      baroAltitude: 10668,
+      onGround: false,
+      velocity: 231.5,
+      trueTrack: 128.4,
+      verticalRate: -0.33,
+      sensors: null,
+      geoAltitude: 10904.2,
+      squawk: "4512",
+      spi: false,
+      positionSource: "adsb",
+      category: null,
+    });
+  });
+
+  it("lower-cases the address and keeps receiver ids", () => {
+    const vector = parseStateVector(row(1));
+    expect(vector?.icao24).toBe("4ca87c");
+    expect(vector?.onGround).toBe(true);
+    expect(vector?.sensors).toEqual([1435, 2210]);
+  });
+
+  it("keeps null fields as null", () => {
+    expect(parseStateVector(row(2))).toMatchObject({
+      callsign: null,
+      timePosition: null,
+      lat: null,
+      lon: null,
+      baroAltitude: null,
+      velocity: null,
+      trueTrack: null,
+      verticalRate: null,
+      geoAltitude: null,
+      squawk: null,
+      positionSource: null,
+    });
+  });
+
+  it("maps position_source to its name", () => {
+    expect(parseStateVector(row(0))?.positionSource).toBe("adsb");
+    expect(parseStateVector(row(3))?.positionSource).toBe("asterix");
+    expect(parseStateVector(row(1))?.positionSource).toBe("mlat");
+    expect(parseStateVector(row(4))?.positionSource).toBe("flarm");
+    // Unknown sources read as unknown rather than dropping the row
+    expect(parseStateVector(row(5))?.positionSource).toBeNull();
+  });
+
+  it("reads the category of extended rows", () => {
+    expect(parseStateVector(row(3))?.category).toBe(4);
+    expect(parseStateVector(row(3))?.spi).toBe(true);
+  });
+
+  it("skips malformed rows", () => {
+    // Not a hex address
+    expect(parseStateVector(row(6))).toBeNull();
+    // Longitude as a string
+    expect(parseStateVector(row(7))).toBeNull();
+    // Longitude without latitude
+    expect(parseStateVector(row(8))).toBeNull();
+    expect(parseStateVector(row(10))).toBeNull();
+    expect(parseStateVector(row(11))).toBeNull();
+  });
+
+  it("skips short rows", () => {
+    expect(parseStateVector(row(9))).toBeNull();
+    expect(parseStateVector((row(0) as unknown[]).slice(0, 16))).toBeNull();
+  });
+});
+
+describe("toFlightState", () => {
+  it("keeps OpenSky's SI units", () => {
+    const state = toFlightState(parseStateVector(row(0))!);
+    expect(state).toMatchObject({
+      callsign: "BBC084",
+      lat: 24.1012,
+      lon: 90.1923,
+      baroAltitude: 10668,
+      velocity: 231.5,
+    });
+    expect(metresToFeet(state!.baroAltitude!)).toBeCloseTo(35000, 0);
+    expect(msToMph(state!.velocity!)).toBeCloseTo(517.9, 1);
+  });
+
+  it("falls back to the GNSS altitude", () => {
+    expect(toFlightState(parseStateVector(row(3))!)?.baroAltitude).toBe(632.5);
+  });
+
+  it("leaves out vectors without a position", () => {
+    expect(toFlightState(parseStateVector(row(2))!)).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import type { FlightState } from "../flightTypes";
+import { ProviderError } from "./types";
+
+// Typed model of the OpenSky /states/all response. OpenSky sends every
+// aircraft as a positional array:
+// [icao24, callsign, origin_country, time_position, last_contact,
+//  longitude, latitude, baro_altitude, on_ground, velocity, true_track,
+//  vertical_rate, sensors, geo_altitude, squawk, spi, position_source,
+//  category]
+// where category is only present when requested with extended=1.
+// https://openskynetwork.github.io/opensky-api/rest.html#all-state-vectors
+
+export type PositionSource = "adsb" | "asterix" | "mlat" | "flarm";
+
+const POSITION_SOURCES: PositionSource[] = ["adsb", "asterix", "mlat", "flarm"];
+
+export interface StateVector {
+  icao24: string; // lower case hex
+  callsign: string | null; // trimmed
+  originCountry: string;
+  timePosition: number | null; // unix seconds of the last position report
+  lastContact: number; // unix seconds of the last message of any kind
+  lon: number | null;
+  lat: number | null;
+  baroAltitude: number | null; // metres
+  onGround: boolean;
+  velocity: number | null; // ground speed, metres per second
+  trueTrack: number | null; // degrees clockwise from north
+  verticalRate: number | null; // metres per second, positive climbing
+  sensors: number[] | null; // receiver ids, only for own-sensor requests
+  geoAltitude: number | null; // metres
+  squawk: string | null;
+  spi: boolean; // special purpose indicator
+  positionSource: PositionSource | null;
+  category: number | null; // emitter category, extended requests only
+}
+
+export interface StatesResponse {
+  time: number; // unix seconds the states are valid for
+  states: StateVector[];
+  // Rows that did not match the format and were left out
+  skipped: number;
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Field readers return undefined for a value of the wrong type, which
+// makes the whole row malformed; null stays null
+const nullableNumber = (value: unknown) =>
+  value === null ? null : isNumber(value) ? value : undefined;
+
+const nullableString = (value: unknown) =>
+  value === null ? null : typeof value === "string" ? value : undefined;
+
+const nullableNumbers = (value: unknown) =>
+  value === null
+    ? null
+    : Array.isArray(value) && value.every(isNumber)
+      ? value
+      : undefined;
+
+type Complete<T> = { [K in keyof T]: Exclude<T[K], undefined> };
+
+// True when every field was read, i.e. none had the wrong type
+const isComplete = <T extends object>(fields: T): fields is Complete<T> =>
+  Object.values(fields).every((value) => value !== undefined);
+
+// A row that doesn't match the documented format, e.g. from an API change
+// or a hand-edited file, is skipped rather than read into nonsense
+export const parseStateVector = (row: unknown): StateVector | null => {
+  if (!Array.isArray(row) || row.length < 17) return null;
+
+  const [icao24, callsign, originCountry, timePosition, lastContact] = row;
+  if (typeof icao24 !== "string" || !/^[0-9a-f]{6}$/i.test(icao24)) {
+    return null;
+  }
+  if (!isNumber(lastContact)) return null;
+
+  const read = {
+    callsign: nullableString(callsign),
+    originCountry: nullableString(originCountry),
+    timePosition: nullableNumber(timePosition),
+    lon: nullableNumber(row[5]),
+    lat: nullableNumber(row[6]),
+    baroAltitude: nullableNumber(row[7]),
+    velocity: nullableNumber(row[9]),
+    trueTrack: nullableNumber(row[10]),
+    verticalRate: nullableNumber(row[11]),
+    sensors: nullableNumbers(row[12]),
+    geoAltitude: nullableNumber(row[13]),
+    squawk: nullableString(row[14]),
+    positionSource: nullableNumber(row[16]),
+    category: row.length > 17 ? nullableNumber(row[17]) : null,
+  };
+  if (!isComplete(read)) return null;
+
+  const vector: StateVector = {
+    icao24: icao24.toLowerCase(),
+    callsign: read.callsign?.trim() || null,
+    originCountry: read.originCountry ?? "",
+    timePosition: read.timePosition,
+    lastContact,
+    lon: read.lon,
+    lat: read.lat,
+    baroAltitude: read.baroAltitude,
+    onGround: row[8] === true,
+    velocity: read.velocity,
+    trueTrack: read.trueTrack,
+    verticalRate: read.verticalRate,
+    sensors: read.sensors,
+    geoAltitude: read.geoAltitude,
+    squawk: read.squawk,
+    spi: row[15] === true,
+    positionSource:
+      read.positionSource === null
+        ? null
+        : (POSITION_SOURCES[read.positionSource] ?? null),
+    category: read.category,
+  };
+
+  // Latitude and longitude come as a pair
+  if ((vector.lat === null) !== (vector.lon === null)) return null;
+  return vector;
+};
+
+// Throws a ProviderError when the response as a whole is unusable; single
+// malformed rows are only counted
+export const parseStatesResponse = (data: unknown): StatesResponse => {
+  const { time, states } = (data ?? {}) as Record<string, unknown>;
+  if (!isNumber(time) || (states !== null && !Array.isArray(states))) {
+    throw new ProviderError("Unexpected OpenSky states response");
+  }
+
+  // OpenSky sends null rather than [] when no aircraft are in the area
+  const rows: unknown[] = states ?? [];
+  const vectors = rows.flatMap((row) => parseStateVector(row) ?? []);
+  return { time, states: vectors, skipped: rows.length - vectors.length };
+};
+
+// The app's view of a state vector; vectors without a position are left out
+export const toFlightState = (vector: StateVector): FlightState | null => {
+  if (vector.lat === null || vector.lon === null) return null;
+
+  return {
+    icao24: vector.icao24,
+    callsign: vector.callsign ?? "",
+    originCountry: vector.originCountry,
+    timePosition: vector.timePosition,
+    lastContact: vector.lastContact,
+    lat: vector.lat,
+    lon: vector.lon,
+    // Fall back to GNSS altitude for aircraft that only report that
+    baroAltitude: vector.baroAltitude ?? vector.geoAltitude,
+    velocity: vector.velocity,
+    trueTrack: vector.trueTrack,
+    verticalRate: vector.verticalRate,
+    squawk: vector.squawk,
+    onGround: vector.onGround,
+  };
+};
@@ -0,0 +1,40 @@
+import type { FlightState } from "../flightTypes";
+
+export interface BoundingBox {
+  lamin: number;
+  lomin: number;
+  lamax: number;
+  lomax: number;
+}
+
+export type ProviderName = "opensky" | "aircraft-json" | "file";
+
+// A source of aircraft positions. The feed (lib/flightFeed.ts) caches each
+// provider's snapshot and fails over to the next provider in
+// FLIGHT_PROVIDERS when one has no contact with the tracked aircraft.
+export interface FlightDataProvider {
+  name: ProviderName;
+  // How long a snapshot from this source is reused before polling again
+  cacheTtlMs: number;
+  // Every aircraft with a known position the source currently sees. Sources
+  // that can filter server-side limit the result to `area`.
+  getStates(area: BoundingBox): Promise<FlightState[]>;
+}
+
+export class ProviderError extends Error {
+  // HTTP status of the failed request, if there was one
+  status: number | null;
+  // Seconds the source asked us to wait before the next request
+  retryAfter: number | null;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
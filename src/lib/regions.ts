@@ -0,0 +1,117 @@
+import type {
+  Feature,
+  FeatureCollection,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from "geojson";
+import type { GeoPoint } from "./geo";
+
+// Which country (and flight information region, when boundaries for those
+// are available) a position is over, by point-in-polygon lookup against
+// the borders served from public/geo.
+
+export type BorderFeature = Feature<Polygon | MultiPolygon | null>;
+export type BorderCollection = FeatureCollection<Polygon | MultiPolygon | null>;
+
+export interface RegionLocation {
+  country: string | null; // null over the sea
+  fir: string | null;
+}
+
+type Bounds = [number, number, number, number]; // minLon, minLat, maxLon, maxLat
+
+interface IndexedPolygon {
+  bounds: Bounds;
+  rings: Position[][]; // outer ring first, then holes
+}
+
+// Polygons with their bounding boxes, worked out on first use. Boxes are
+// per polygon because some countries' overseas territories span the globe.
+const indexed = new WeakMap<BorderFeature, IndexedPolygon[]>();
+
+// Last feature each collection matched; successive positions are usually
+// over the same country
+const lastMatch = new WeakMap<BorderCollection, BorderFeature>();
+
+const polygonsOf = (geometry: Polygon | MultiPolygon): Position[][][] =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+const getPolygons = (feature: BorderFeature): IndexedPolygon[] => {
+  const cached = indexed.get(feature);
+  if (cached) return cached;
+
+  const polygons = (feature.geometry ? polygonsOf(feature.geometry) : []).map(
+    (rings) => {
+      const bounds: Bounds = [Infinity, Infinity, -Infinity, -Infinity];
+      for (const [lon, lat] of rings[0]) {
+        bounds[0] = Math.min(bounds[0], lon);
+        bounds[1] = Math.min(bounds[1], lat);
+        bounds[2] = Math.max(bounds[2], lon);
+        bounds[3] = Math.max(bounds[3], lat);
+      }
+      return { bounds, rings };
+    }
+  );
+  indexed.set(feature, polygons);
+  return polygons;
+};
+
+// Ray casting: count the ring edges crossed by a ray running east of p
+const inRing = (ring: Position[], { lat, lon }: GeoPoint) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > lat !== yj > lat &&
+      lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const featureContains = (feature: BorderFeature, p: GeoPoint) =>
+  getPolygons(feature).some(({ bounds, rings: [outer, ...holes] }) => {
+    const [minLon, minLat, maxLon, maxLat] = bounds;
+    if (p.lon < minLon || p.lon > maxLon || p.lat < minLat || p.lat > maxLat) {
+      return false;
+    }
+    // Inside the outer ring and outside any holes
+    return inRing(outer, p) && !holes.some((hole) => inRing(hole, p));
+  });
+
+// Display name of a border feature; FIR boundary sets often only carry an
+// ICAO code as their id
+export const featureName = (
+  feature: Pick<Feature, "id" | "properties">
+): string | null => {
+  const name = feature.properties?.name ?? feature.properties?.id ?? feature.id;
+  return name === undefined || name === null ? null : String(name);
+};
+
+export const findRegion = (
+  collection: BorderCollection,
+  p: GeoPoint
+): string | null => {
+  const previous = lastMatch.get(collection);
+  const feature =
+    previous && featureContains(previous, p)
+      ? previous
+      : collection.features.find((f) => featureContains(f, p));
+  if (!feature) return null;
+
+  lastMatch.set(collection, feature);
+  return featureName(feature);
+};
+
+export const locateRegion = (
+  countries: BorderCollection,
+  firs: BorderCollection | null,
+  p: GeoPoint
+): RegionLocation => ({
+  country: findRegion(countries, p),
+  fir: firs ? findRegion(firs, p) : null,
+});
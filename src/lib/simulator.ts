@@ -0,0 +1,287 @@
+import { planApproach } from "./arrival";
+import type { FlightState, TrackSample } from "./flightTypes";
+import {
+  bearing,
+  buildRoute,
+  distanceKm,
+  GeoPoint,
+  interpolate,
+  Route,
+} from "./geo";
+import { toTrackSample } from "./track";
+import type { TrackedFlight } from "./trackedFlight";
+
+// Deterministic flight simulator for rehearsals, screenshots and tests.
+// The aircraft flies the great-circle legs between the flight's waypoints
+// with a climb / cruise / descent profile, joining the final approach to
+// the destination's runway when one is configured, and taxis at both ends.
+// Its state depends only on the number of seconds since takeoff, so every
+// viewer sees the same thing.
+
+const CRUISE_ALTITUDE_M = 11000;
+const CRUISE_SPEED_MS = 245; // ~880 km/h ground speed
+const ROTATE_SPEED_MS = 80;
+const LANDING_SPEED_MS = 70;
+const CLIMB_DISTANCE_KM = 250;
+const DESCENT_DISTANCE_KM = 280;
+
+// Time spent on the ground at each end of the route in the repeating demo
+// cycle, the first part of it taxiing
+const GROUND_TIME_S = 20 * 60;
+const TAXI_TIME_S = 6 * 60;
+const TAXI_SPEED_MS = 8;
+
+const STEP_KM = 1;
+
+interface Profile {
+  route: Route;
+  totalKm: number;
+  climbKm: number;
+  descentKm: number;
+  // Seconds since takeoff at each STEP_KM of distance flown
+  times: number[];
+  // Landing runway, from the threshold to the far end
+  rollout: [GeoPoint, GeoPoint] | null;
+}
+
+const profiles = new WeakMap<TrackedFlight, Profile>();
+
+const lerp = (a: number, b: number, f: number) => a + (b - a) * f;
+
+const speedAt = (profile: Profile, km: number) => {
+  const { totalKm, climbKm, descentKm } = profile;
+  if (km < climbKm) return lerp(ROTATE_SPEED_MS, CRUISE_SPEED_MS, km / climbKm);
+  if (km > totalKm - descentKm) {
+    const f = (km - (totalKm - descentKm)) / descentKm;
+    return lerp(CRUISE_SPEED_MS, LANDING_SPEED_MS, f);
+  }
+  return CRUISE_SPEED_MS;
+};
+
+const altitudeAt = (profile: Profile, km: number) => {
+  const { totalKm, climbKm, descentKm } = profile;
+  if (km < climbKm) {
+    // Steep initial climb that flattens out towards cruise
+    const f = km / climbKm;
+    return CRUISE_ALTITUDE_M * (1 - (1 - f) * (1 - f));
+  }
+  if (km > totalKm - descentKm) {
+    return CRUISE_ALTITUDE_M * ((totalKm - km) / descentKm);
+  }
+  return CRUISE_ALTITUDE_M;
+};
+
+// Climb or descent rate (m/s): altitude change per metre flown times speed
+const verticalRateAt = (profile: Profile, km: number) => {
+  const gradient =
+    (altitudeAt(profile, km + 0.5) - altitudeAt(profile, km - 0.5)) / 1000;
+  return gradient * speedAt(profile, km);
+};
+
+const getProfile = (flight: TrackedFlight): Profile => {
+  const cached = profiles.get(flight);
+  if (cached) return cached;
+
+  // Turn onto the final approach instead of flying to the last waypoint
+  const { waypoints } = flight;
+  const approach = planApproach(
+    flight.destination,
+    waypoints[waypoints.length - 2]
+  );
+  const route = buildRoute(
+    approach
+      ? [...waypoints.slice(0, -1), approach.fix, approach.threshold]
+      : waypoints
+  );
+  const { totalKm } = route;
+
+  // Short routes never reach full cruise
+  const climbKm = Math.min(CLIMB_DISTANCE_KM, totalKm * 0.4);
+  const descentKm = Math.min(DESCENT_DISTANCE_KM, totalKm * 0.4);
+  const profile: Profile = {
+    route,
+    totalKm,
+    climbKm,
+    descentKm,
+    times: [0],
+    rollout: approach && [approach.threshold, approach.farEnd],
+  };
+
+  // Integrate time over distance using the speed profile
+  for (let km = STEP_KM; km < totalKm + STEP_KM; km += STEP_KM) {
+    const step = Math.min(STEP_KM, totalKm - (km - STEP_KM));
+    const speed = speedAt(profile, km - step / 2);
+    profile.times.push(
+      profile.times[profile.times.length - 1] + (step * 1000) / speed
+    );
+  }
+
+  profiles.set(flight, profile);
+  return profile;
+};
+
+// Flight time from takeoff to touchdown, in seconds
+export const getSimulatedDuration = (flight: TrackedFlight) => {
+  const { times } = getProfile(flight);
+  return times[times.length - 1];
+};
+
+// Distance flown (km) after `elapsed` seconds in the air
+const distanceAt = (profile: Profile, elapsed: number) => {
+  const { times, totalKm } = profile;
+  let lo = 0;
+  let hi = times.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < elapsed) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo === 0) return 0;
+  const f = (elapsed - times[lo - 1]) / (times[lo] - times[lo - 1]);
+  return Math.min((lo - 1 + f) * STEP_KM, totalKm);
+};
+
+// Position and track `km` along the route
+const routePosition = ({ route }: Profile, km: number) => {
+  const leg = Math.max(
+    route.legStarts.findLastIndex((start) => start <= km),
+    0
+  );
+  const from = route.points[leg];
+  const to = route.points[leg + 1];
+  const length = route.legLengths[leg];
+  const f = length > 0 ? Math.min((km - route.legStarts[leg]) / length, 1) : 1;
+  const position = interpolate(from, to, f);
+  const ahead = interpolate(from, to, Math.min(f + 0.01, 1));
+  return {
+    position,
+    heading: f < 1 ? bearing(position, ahead) : bearing(from, to),
+  };
+};
+
+// Position and track `seconds` after touchdown, rolling out along the
+// runway and then parked
+const rolloutPosition = (profile: Profile, seconds: number) => {
+  if (!profile.rollout) return routePosition(profile, profile.totalKm);
+  const [threshold, farEnd] = profile.rollout;
+  const length = distanceKm(threshold, farEnd);
+  const km = (TAXI_SPEED_MS * Math.min(seconds, TAXI_TIME_S)) / 1000;
+  return {
+    position: interpolate(threshold, farEnd, Math.min(km / length, 1)),
+    heading: bearing(threshold, farEnd),
+  };
+};
+
+// State of the simulated aircraft `elapsed` seconds after takeoff. Negative
+// values are before departure, values past the duration after landing.
+export const simulateFlight = (
+  flight: TrackedFlight,
+  elapsed: number,
+  now = Date.now()
+): FlightState => {
+  const profile = getProfile(flight);
+  const duration = getSimulatedDuration(flight);
+  const km = elapsed <= 0 ? 0 : distanceAt(profile, elapsed);
+  const onGround = elapsed <= 0 || elapsed >= duration;
+  const taxiing =
+    (elapsed > -TAXI_TIME_S && elapsed <= 0) ||
+    (elapsed >= duration && elapsed < duration + TAXI_TIME_S);
+  const { position, heading } =
+    elapsed >= duration
+      ? rolloutPosition(profile, elapsed - duration)
+      : routePosition(profile, km);
+
+  const time = Math.floor(now / 1000);
+  return {
+    icao24: flight.icao24 ?? "000000",
+    callsign: flight.callsigns[0],
+    originCountry: "Simulation",
+    timePosition: time,
+    lastContact: time,
+    lat: position.lat,
+    lon: position.lon,
+    baroAltitude: onGround ? 0 : altitudeAt(profile, km),
+    velocity: taxiing ? TAXI_SPEED_MS : onGround ? 0 : speedAt(profile, km),
+    trueTrack: heading,
+    verticalRate: onGround ? 0 : verticalRateAt(profile, km),
+    squawk: null,
+    onGround,
+  };
+};
+
+// Positions every `step` seconds from leaving the gate up to `elapsed`
+export const simulateTrack = (
+  flight: TrackedFlight,
+  elapsed: number,
+  now = Date.now(),
+  step = 60
+): TrackSample[] => {
+  const duration = getSimulatedDuration(flight);
+  const samples: TrackSample[] = [];
+  const end = Math.min(elapsed, duration + GROUND_TIME_S);
+  for (let t = -TAXI_TIME_S; t <= end; t += step) {
+    samples.push(
+      toTrackSample(simulateFlight(flight, t, now - (elapsed - t) * 1000))
+    );
+  }
+  return samples;
+};
+
+// Seconds since takeoff at `now`. A pinned offset wins; otherwise the
+// simulation repeats on a fixed cycle (parked, flight, parked) from the
+// SIMULATION_START time or the unix epoch.
+export const getSimulationElapsed = (
+  flight: TrackedFlight,
+  now = Date.now(),
+  offset?: number
+): number => {
+  if (offset !== undefined && Number.isFinite(offset)) return offset;
+
+  const start = Date.parse(process.env.SIMULATION_START ?? "") || 0;
+  const cycle = getSimulatedDuration(flight) + 2 * GROUND_TIME_S;
+  const sinceStart = (now - start) / 1000;
+  return (((sinceStart % cycle) + cycle) % cycle) - GROUND_TIME_S;
+};
+
+export interface SimulationRequest {
+  offset?: number; // pins the clock to this many seconds after takeoff
+}
+
+// Simulation is on for ?demo=1, or for everyone with FLIGHT_SIMULATION=1;
+// ?t=<seconds> pins the clock. Returns null when simulation is off.
+export const parseSimulationRequest = (
+  demo: string | null | undefined,
+  t: string | null | undefined
+): SimulationRequest | null => {
+  const enabled =
+    demo === "1" || demo === "true" || process.env.FLIGHT_SIMULATION === "1";
+  if (!enabled) return null;
+
+  const offset = t ? Number(t) : NaN;
+  return Number.isFinite(offset) ? { offset } : {};
+};
+
+// The request with its pinned clock rounded to the second and kept within
+// one cycle: earlier or later offsets only show the aircraft parked. Keeps
+// per-request caches from growing with every distinct ?t=.
+export const normalizeSimulation = (
+  flight: TrackedFlight,
+  simulation: SimulationRequest | null
+): SimulationRequest | null => {
+  if (simulation?.offset === undefined) return simulation;
+  const end = getSimulatedDuration(flight) + GROUND_TIME_S;
+  return {
+    offset: Math.min(
+      Math.max(Math.round(simulation.offset), -GROUND_TIME_S),
+      end
+    ),
+  };
+};
+
+// Query string that carries a simulation request on to the API routes
+export const toSimulationQuery = (simulation: SimulationRequest | null) => {
+  if (!simulation) return "";
+  return simulation.offset !== undefined
+    ? `demo=1&t=${simulation.offset}`
+    : "demo=1";
+};
@@ -0,0 +1,65 @@
+import type { GeoPoint } from "./geo";
+
+// Where the sun is overhead and which half of the earth is in darkness, for
+// the map's day/night overlay. Uses the low-precision solar coordinates from
+// the Astronomical Almanac, good to about a hundredth of a degree.
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+const wrapLongitude = (lon: number) =>
+  ((((lon + 180) % 360) + 360) % 360) - 180;
+
+// Point where the sun is directly overhead at `time` (unix ms)
+export const subsolarPoint = (time: number): GeoPoint => {
+  // Days since J2000.0
+  const n = time / 86400000 - 10957.5;
+  const meanLongitude = 280.46 + 0.9856474 * n;
+  const meanAnomaly = toRad(357.528 + 0.9856003 * n);
+  const eclipticLongitude = toRad(
+    meanLongitude +
+      1.915 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly)
+  );
+  const obliquity = toRad(23.439 - 0.0000004 * n);
+
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(eclipticLongitude)
+  );
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+  // Greenwich mean sidereal time, degrees
+  const siderealTime = 280.46061837 + 360.98564736629 * n;
+
+  return {
+    lat: toDeg(declination),
+    lon: wrapLongitude(toDeg(rightAscension) - siderealTime),
+  };
+};
+
+// Outline of the night side at `time`: the terminator from west to east,
+// closed around the pole in darkness
+export const nightPolygon = (time: number, stepDeg = 2): GeoPoint[] => {
+  const sun = subsolarPoint(time);
+  // Keep away from the equinox singularity, where the terminator runs
+  // through both poles
+  const tanDeclination = Math.tan(toRad(sun.lat)) || Number.EPSILON;
+
+  const outline: GeoPoint[] = [];
+  for (let lon = -180; lon <= 180; lon += stepDeg) {
+    const hourAngle = toRad(lon - sun.lon);
+    outline.push({
+      lat: toDeg(Math.atan(-Math.cos(hourAngle) / tanDeclination)),
+      lon,
+    });
+  }
+
+  const darkPole = sun.lat > 0 ? -90 : 90;
+  return [
+    ...outline,
+    { lat: darkPole, lon: 180 },
+    { lat: darkPole, lon: -180 },
+  ];
+};
@@ -0,0 +1,122 @@
+import type { FlightState, TrackSample } from "./flightTypes";
+
+// Helpers for recorded tracks, shared by the server store and the browser
+
+export const toTrackSample = (state: FlightState): TrackSample => ({
+  time: state.timePosition ?? state.lastContact,
+  lat: state.lat,
+  lon: state.lon,
+  altitude: state.baroAltitude,
+  velocity: state.velocity,
+  heading: state.trueTrack,
+  onGround: state.onGround,
+  squawk: state.squawk,
+});
+
+// Returns the track with the sample appended, or the same array when the
+// sample is not newer than the last recorded one
+export const appendSample = (
+  samples: TrackSample[],
+  sample: TrackSample
+): TrackSample[] => {
+  const last = samples[samples.length - 1];
+  return last && sample.time <= last.time ? samples : [...samples, sample];
+};
+
+const lerp = (a: number, b: number, f: number) => a + (b - a) * f;
+
+const lerpNullable = (a: number | null, b: number | null, f: number) =>
+  a === null || b === null ? (a ?? b) : lerp(a, b, f);
+
+// Number of samples at or before `time`, by binary search. Assumes samples
+// are sorted by time.
+export const countSamplesUntil = (samples: TrackSample[], time: number) => {
+  let lo = 0;
+  let hi = samples.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].time <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Interpolates the aircraft's state at `time` (unix seconds) between the
+// recorded samples either side of it. Assumes samples are sorted by time.
+export const sampleAt = (
+  samples: TrackSample[],
+  time: number
+): TrackSample | null => {
+  if (samples.length === 0) return null;
+  if (time <= samples[0].time) return samples[0];
+
+  const last = samples[samples.length - 1];
+  if (time >= last.time) return last;
+
+  // First sample after `time`
+  const lo = countSamplesUntil(samples, time);
+  const before = samples[lo - 1];
+  const after = samples[lo];
+  const f = (time - before.time) / (after.time - before.time);
+
+  return {
+    time,
+    lat: lerp(before.lat, after.lat, f),
+    lon: lerp(before.lon, after.lon, f),
+    altitude: lerpNullable(before.altitude, after.altitude, f),
+    velocity: lerpNullable(before.velocity, after.velocity, f),
+    heading: before.heading ?? after.heading,
+    onGround: before.onGround,
+    squawk: before.squawk,
+  };
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const optionalNumber = (value: unknown) => (isNumber(value) ? value : null);
+
+// Reads a track saved from /api/flight/track: either the response itself or
+// a bare array of samples. Throws when the file holds no usable positions.
+export const parseTrackFile = (text: string): TrackSample[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Track file is not valid JSON");
+  }
+
+  const list =
+    raw && typeof raw === "object" && "samples" in raw
+      ? (raw as { samples: unknown }).samples
+      : raw;
+  if (!Array.isArray(list)) {
+    throw new Error("Track file must contain an array of samples");
+  }
+
+  const samples = list
+    .filter(
+      (s): s is Record<string, unknown> =>
+        typeof s === "object" &&
+        s !== null &&
+        isNumber(s.time) &&
+        isNumber(s.lat) &&
+        isNumber(s.lon)
+    )
+    .map((s): TrackSample => ({
+      time: s.time as number,
+      lat: s.lat as number,
+      lon: s.lon as number,
+      altitude: optionalNumber(s.altitude),
+      velocity: optionalNumber(s.velocity),
+      heading: optionalNumber(s.heading),
+      onGround: Boolean(s.onGround),
+      squawk: typeof s.squawk === "string" ? s.squawk : null,
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  if (samples.length < 2) {
+    throw new Error("Track file needs at least two timed positions");
+  }
+  return samples;
+};
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { TrackSample } from "./flightTypes";
+import {
+  parseTrackDocument,
+  serializeTrackDocument,
+  TRACK_FILE_FORMATS,
+  TrackDocument,
+} from "./trackFiles";
+
+const document: TrackDocument = {
+  name: "BG202 <Dhaka & back>",
+  route: [
+    { name: "LHR", lat: 51.47, lon: -0.4543, region: "United Kingdom" },
+    { name: "DXB", lat: 25.2532, lon: 55.3657, region: "UAE" },
+    { name: "DAC", lat: 23.8433, lon: 90.3978, region: "Bangladesh" },
+  ],
+  track: [
+    {
+      time: 1735732800,
+      lat: 51.47,
+      lon: -0.4543,
+      altitude: 25,
+      velocity: 8.5,
+      heading: 270,
+      onGround: true,
+      squawk: "2000",
+    },
+    {
+      time: 1735732860,
+      lat: 51.4812,
+      lon: -0.5101,
+      altitude: 420.5,
+      velocity: 82.3,
+      heading: 271.5,
+      onGround: false,
+      squawk: "2000",
+    },
+    {
+      time: 1735733400,
+      lat: 51.2,
+      lon: 0.35,
+      altitude: 9144,
+      velocity: 231.5,
+      heading: 98,
+      onGround: false,
+      squawk: "7700",
+    },
+  ],
+};
+
+describe.each(TRACK_FILE_FORMATS)("%s round trip", (format) => {
+  const parsed = parseTrackDocument(serializeTrackDocument(format, document));
+
+  it("keeps the name", () => {
+    expect(parsed.name).toBe(document.name);
+  });
+
+  it("keeps the route", () => {
+    expect(parsed.route).toEqual(document.route);
+  });
+
+  it("keeps every sample with its position, time and altitude", () => {
+    expect(parsed.track).toHaveLength(document.track.length);
+    parsed.track.forEach((s, i) => {
+      const original = document.track[i];
+      expect(s.time).toBe(original.time);
+      expect(s.lat).toBeCloseTo(original.lat, 6);
+      expect(s.lon).toBeCloseTo(original.lon, 6);
+      expect(s.altitude).toBeCloseTo(original.altitude!, 3);
+    });
+  });
+
+  it("keeps velocity, heading, on-ground and squawk", () => {
+    const flags = ({ velocity, heading, onGround, squawk }: TrackSample) => ({
+      velocity,
+      heading,
+      onGround,
+      squawk,
+    });
+    expect(parsed.track.map(flags)).toEqual(document.track.map(flags));
+  });
+});
+
+describe("parseTrackDocument", () => {
+  it("reads unknown sample fields back as unknown", () => {
+    const track = document.track.map((s) => ({ ...s, squawk: null }));
+    for (const format of TRACK_FILE_FORMATS) {
+      const parsed = parseTrackDocument(
+        serializeTrackDocument(format, { ...document, track })
+      );
+      expect(parsed.track.map((s) => s.squawk)).toEqual([null, null, null]);
+    }
+  });
+
+  it("works out speed and heading for plain GPX tracks", () => {
+    const gpx = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>Plain</name><trkseg>
+    <trkpt lat="0" lon="0"><time>2025-01-01T00:00:00Z</time></trkpt>
+    <trkpt lat="0" lon="0.1"><time>2025-01-01T00:01:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+    const { name, track } = parseTrackDocument(gpx);
+    expect(name).toBe("Plain");
+    expect(track[1].altitude).toBeNull();
+    expect(track[1].onGround).toBe(false);
+    expect(track[1].heading).toBeCloseTo(90, 3);
+    expect(track[1].velocity).toBeCloseTo(185.3, 0);
+  });
+
+  it("skips GeoJSON features with malformed coordinates", () => {
+    const geojson = {
+      type: "FeatureCollection",
+      features: [
+        null,
+        { type: "Feature", geometry: { type: "Point", coordinates: null } },
+        { type: "Feature", geometry: { type: "LineString", coordinates: "x" } },
+        {
+          type: "Feature",
+          geometry: { type: "LineString", coordinates: [[1, "2"]] },
+        },
+        {
+          type: "Feature",
+          geometry: { type: "MultiLineString", coordinates: [[1, 2]] },
+        },
+        {
+          type: "Feature",
+          properties: null,
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [90, 23],
+              [91, 24],
+            ],
+          },
+        },
+      ],
+    };
+    expect(parseTrackDocument(JSON.stringify(geojson)).route).toEqual([
+      { name: "WP1", lat: 23, lon: 90, region: "" },
+      { name: "WP2", lat: 24, lon: 91, region: "" },
+    ]);
+  });
+
+  it.each([
+    ["<svg></svg>", "unsupported"],
+    ["{ not json", "invalidJson"],
+    ['{ "foo": 1 }', "noSamples"],
+    [
+      JSON.stringify({
+        type: "LineString",
+        coordinates: [[90, 23], null],
+      }),
+      "tooShort",
+    ],
+  ])("rejects %s with a reason", (text, reason) => {
+    expect(() => parseTrackDocument(text)).toThrow(
+      expect.objectContaining({ name: "TrackFileError", reason })
+    );
+  });
+});
@@ -0,0 +1,680 @@
+import type { TrackSample } from "./flightTypes";
+import { bearing, distanceKm } from "./geo";
+import { parseTrackFile } from "./track";
+import type { Waypoint } from "./trackedFlight";
+
+// GPX, KML and GeoJSON export of a flight's recorded track and planned
+// route, and import of the same formats. Shared by the export API route and
+// the browser, so it only uses plain string handling.
+
+export const TRACK_FILE_FORMATS = ["gpx", "kml", "geojson"] as const;
+
+export type TrackFileFormat = (typeof TRACK_FILE_FORMATS)[number];
+
+export const TRACK_FILE_TYPES: Record<TrackFileFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+  geojson: "application/geo+json",
+};
+
+export const isTrackFileFormat = (value: string): value is TrackFileFormat =>
+  (TRACK_FILE_FORMATS as readonly string[]).includes(value);
+
+// What a file holds: either part may be empty
+export interface TrackDocument {
+  name: string;
+  track: TrackSample[];
+  route: Waypoint[];
+}
+
+const ROUTE_NAME = "Planned route";
+// Namespace of the GPX extension elements holding the rest of each sample
+const GPX_EXTENSION_NS = "urn:leader-homecoming:gpx:1";
+// Id of the KML schema declaring the per-position arrays
+const KML_SCHEMA_ID = "trackData";
+
+// Why a file couldn't be read; the UI words each reason in the reader's
+// language, the message is for logs
+export type TrackFileErrorReason =
+  "unsupported" | "invalidJson" | "noSamples" | "tooShort";
+
+export class TrackFileError extends Error {
+  reason: TrackFileErrorReason;
+
+  constructor(reason: TrackFileErrorReason, message: string) {
+    super(message);
+    this.name = "TrackFileError";
+    this.reason = reason;
+  }
+}
+
+// "2025-01-01T12:00:00Z", without the milliseconds
+const toIsoTime = (unixSeconds: number) =>
+  new Date(unixSeconds * 1000).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+const parseIsoTime = (value: unknown) => {
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time / 1000 : null;
+};
+
+const isCoordinate = (lat: number, lon: number) =>
+  Number.isFinite(lat) &&
+  Number.isFinite(lon) &&
+  Math.abs(lat) <= 90 &&
+  Math.abs(lon) <= 180;
+
+// Serializers
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Sample fields besides the position and time, for GPX <extensions> and
+// KML ExtendedData; "" for unknown values
+const EXTRA_FIELDS = ["velocity", "heading", "onGround", "squawk"] as const;
+
+const KML_FIELD_TYPES = {
+  velocity: "float",
+  heading: "float",
+  onGround: "bool",
+  squawk: "string",
+};
+
+const extraValue = (s: TrackSample, field: (typeof EXTRA_FIELDS)[number]) =>
+  String(s[field] ?? "");
+
+const toGpx = ({ name, track, route }: TrackDocument) => {
+  const rtepts = route.map(
+    (w) =>
+      `      <rtept lat="${w.lat}" lon="${w.lon}"><name>${escapeXml(w.name)}</name><desc>${escapeXml(w.region)}</desc></rtept>`
+  );
+  const extensions = (s: TrackSample) =>
+    EXTRA_FIELDS.map((field) => {
+      const value = extraValue(s, field);
+      return value ? `<lh:${field}>${escapeXml(value)}</lh:${field}>` : "";
+    }).join("");
+  const trkpts = track.map(
+    (s) =>
+      `        <trkpt lat="${s.lat}" lon="${s.lon}">${
+        s.altitude === null ? "" : `<ele>${s.altitude}</ele>`
+      }<time>${toIsoTime(s.time)}</time><extensions>${extensions(s)}</extensions></trkpt>`
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="Leader Homecoming" xmlns="http://www.topografix.com/GPX/1/1" xmlns:lh="${GPX_EXTENSION_NS}">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...(route.length
+      ? [`  <rte>`, `    <name>${ROUTE_NAME}</name>`, ...rtepts, `  </rte>`]
+      : []),
+    ...(track.length
+      ? [
+          `  <trk>`,
+          `    <name>${escapeXml(name)}</name>`,
+          `    <trkseg>`,
+          ...trkpts,
+          `    </trkseg>`,
+          `  </trk>`,
+        ]
+      : []),
+    `</gpx>`,
+    "",
+  ].join("\n");
+};
+
+// The route is a line plus a named point per waypoint; the track is a
+// gx:Track so each position keeps its time, with the rest of each sample in
+// arrays declared by the document's schema
+const toKml = ({ name, track, route }: TrackDocument) => {
+  const schema = track.length
+    ? [
+        `    <Schema id="${KML_SCHEMA_ID}">`,
+        ...EXTRA_FIELDS.map(
+          (field) =>
+            `      <gx:SimpleArrayField name="${field}" type="${KML_FIELD_TYPES[field]}"/>`
+        ),
+        `    </Schema>`,
+      ]
+    : [];
+  const routeFolder = route.length
+    ? [
+        `    <Folder>`,
+        `      <name>${ROUTE_NAME}</name>`,
+        `      <Placemark>`,
+        `        <name>${ROUTE_NAME}</name>`,
+        `        <LineString><tessellate>1</tessellate><coordinates>${route
+          .map((w) => `${w.lon},${w.lat}`)
+          .join(" ")}</coordinates></LineString>`,
+        `      </Placemark>`,
+        ...route.map(
+          (w) =>
+            `      <Placemark><name>${escapeXml(w.name)}</name><description>${escapeXml(w.region)}</description><Point><coordinates>${w.lon},${w.lat}</coordinates></Point></Placemark>`
+        ),
+        `    </Folder>`,
+      ]
+    : [];
+  const trackPlacemark = track.length
+    ? [
+        `    <Placemark>`,
+        `      <name>${escapeXml(name)}</name>`,
+        `      <gx:Track>`,
+        `        <altitudeMode>absolute</altitudeMode>`,
+        ...track.map((s) => `        <when>${toIsoTime(s.time)}</when>`),
+        ...track.map(
+          (s) =>
+            `        <gx:coord>${s.lon} ${s.lat} ${s.altitude ?? 0}</gx:coord>`
+        ),
+        `        <ExtendedData>`,
+        `          <SchemaData schemaUrl="#${KML_SCHEMA_ID}">`,
+        ...EXTRA_FIELDS.map(
+          (field) =>
+            `            <gx:SimpleArrayData name="${field}">${track
+              .map(
+                (s) => `<gx:value>${escapeXml(extraValue(s, field))}</gx:value>`
+              )
+              .join("")}</gx:SimpleArrayData>`
+        ),
+        `          </SchemaData>`,
+        `        </ExtendedData>`,
+        `      </gx:Track>`,
+        `    </Placemark>`,
+      ]
+    : [];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(name)}</name>`,
+    ...schema,
+    ...routeFolder,
+    ...trackPlacemark,
+    `  </Document>`,
+    `</kml>`,
+    "",
+  ].join("\n");
+};
+
+// Per-position times and the rest of each sample go in
+// coordinateProperties, the convention used by togeojson and others
+const toGeoJson = ({ name, track, route }: TrackDocument) => {
+  const features: GeoJSON.Feature[] = [];
+
+  if (route.length) {
+    features.push({
+      type: "Feature",
+      properties: { name: ROUTE_NAME, role: "route" },
+      geometry: {
+        type: "LineString",
+        coordinates: route.map((w) => [w.lon, w.lat]),
+      },
+    });
+    for (const w of route) {
+      features.push({
+        type: "Feature",
+        properties: { name: w.name, region: w.region, role: "waypoint" },
+        geometry: { type: "Point", coordinates: [w.lon, w.lat] },
+      });
+    }
+  }
+
+  if (track.length) {
+    features.push({
+      type: "Feature",
+      properties: {
+        name,
+        role: "track",
+        coordinateProperties: {
+          times: track.map((s) => toIsoTime(s.time)),
+          velocity: track.map((s) => s.velocity),
+          heading: track.map((s) => s.heading),
+          onGround: track.map((s) => s.onGround),
+          squawk: track.map((s) => s.squawk ?? null),
+        },
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: track.map((s) =>
+          s.altitude === null ? [s.lon, s.lat] : [s.lon, s.lat, s.altitude]
+        ),
+      },
+    });
+  }
+
+  const collection: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features,
+  };
+  return `${JSON.stringify(collection, null, 2)}\n`;
+};
+
+export const serializeTrackDocument = (
+  format: TrackFileFormat,
+  document: TrackDocument
+): string =>
+  format === "gpx"
+    ? toGpx(document)
+    : format === "kml"
+      ? toKml(document)
+      : toGeoJson(document);
+
+// Parsers
+
+interface XmlElement {
+  attributes: string;
+  body: string;
+}
+
+// Just enough XML for GPX and KML: elements are matched by local name, so
+// "gx:coord" is found as "coord", and must not nest inside themselves
+const xmlElements = (xml: string, tag: string): XmlElement[] => {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}\\s*>)`,
+    "g"
+  );
+  return [...xml.matchAll(pattern)].map((match) => ({
+    attributes: match[1] ?? "",
+    body: match[2] ?? "",
+  }));
+};
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) =>
+      String.fromCodePoint(parseInt(dec, 10))
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+const xmlText = (xml: string, tag: string) => {
+  const element = xmlElements(xml, tag)[0];
+  return element ? decodeXml(element.body) : "";
+};
+
+const xmlAttributeText = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+const xmlAttribute = (attributes: string, name: string) =>
+  Number(xmlAttributeText(attributes, name));
+
+// A number, or null for empty and non-numeric text
+const optionalNumber = (text: string) => {
+  const value = Number(text || NaN);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Sample fields written by toGpx and toKml, read back from their text
+const extraFields = (
+  read: (field: (typeof EXTRA_FIELDS)[number]) => string
+): Pick<TrackSample, (typeof EXTRA_FIELDS)[number]> => ({
+  velocity: optionalNumber(read("velocity")),
+  heading: optionalNumber(read("heading")),
+  onGround: ["true", "1"].includes(read("onGround")),
+  squawk: read("squawk") || null,
+});
+
+// Strips comments so commented-out points aren't read
+const withoutComments = (xml: string) => xml.replace(/<!--[\s\S]*?-->/g, "");
+
+const waypoint = (
+  name: string,
+  region: string,
+  lat: number,
+  lon: number,
+  index: number
+): Waypoint => ({ name: name || `WP${index + 1}`, lat, lon, region });
+
+const sample = (
+  time: number,
+  lat: number,
+  lon: number,
+  altitude: number | null
+): TrackSample => ({
+  time,
+  lat,
+  lon,
+  altitude,
+  velocity: null,
+  heading: null,
+  onGround: false,
+  squawk: null,
+});
+
+const parseGpx = (xml: string): TrackDocument => {
+  const toWaypoints = (points: XmlElement[]) =>
+    points.flatMap((point, i) => {
+      const lat = xmlAttribute(point.attributes, "lat");
+      const lon = xmlAttribute(point.attributes, "lon");
+      return isCoordinate(lat, lon)
+        ? [
+            waypoint(
+              xmlText(point.body, "name"),
+              xmlText(point.body, "desc"),
+              lat,
+              lon,
+              i
+            ),
+          ]
+        : [];
+    });
+
+  // A route, or failing that standalone waypoints, is the planned route
+  const rte = xmlElements(xml, "rte")[0];
+  const route = toWaypoints(
+    rte ? xmlElements(rte.body, "rtept") : xmlElements(xml, "wpt")
+  );
+
+  const track = xmlElements(xml, "trkpt").flatMap((point) => {
+    const lat = xmlAttribute(point.attributes, "lat");
+    const lon = xmlAttribute(point.attributes, "lon");
+    const time = parseIsoTime(xmlText(point.body, "time"));
+    const extensions = xmlElements(point.body, "extensions")[0]?.body ?? "";
+    return isCoordinate(lat, lon) && time !== null
+      ? [
+          {
+            ...sample(
+              time,
+              lat,
+              lon,
+              optionalNumber(xmlText(point.body, "ele"))
+            ),
+            ...extraFields((field) => xmlText(extensions, field)),
+          },
+        ]
+      : [];
+  });
+
+  const trk = xmlElements(xml, "trk")[0];
+  const metadata = xmlElements(xml, "metadata")[0];
+  return {
+    name: xmlText(metadata?.body ?? trk?.body ?? "", "name"),
+    track,
+    route,
+  };
+};
+
+// "lon,lat[,alt] lon,lat[,alt] ..."
+const parseKmlCoordinates = (text: string) =>
+  text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter(([lon, lat]) => isCoordinate(lat, lon));
+
+const parseKml = (xml: string): TrackDocument => {
+  const placemarks = xmlElements(xml, "Placemark");
+
+  // Named points make up the route; a bare line is used when there are none
+  const points = placemarks.flatMap((placemark, i) => {
+    const point = xmlElements(placemark.body, "Point")[0];
+    const [coordinates] = parseKmlCoordinates(
+      xmlText(point?.body ?? "", "coordinates")
+    );
+    return coordinates
+      ? [
+          waypoint(
+            xmlText(placemark.body, "name"),
+            xmlText(placemark.body, "description"),
+            coordinates[1],
+            coordinates[0],
+            i
+          ),
+        ]
+      : [];
+  });
+  const line = xmlElements(xml, "LineString")[0];
+  const route =
+    points.length >= 2 || !line
+      ? points
+      : parseKmlCoordinates(xmlText(line.body, "coordinates")).map(
+          ([lon, lat], i) => waypoint("", "", lat, lon, i)
+        );
+
+  // gx:Track lists every <when> and then every <gx:coord>
+  const trackElement = xmlElements(xml, "Track")[0];
+  const times = xmlElements(trackElement?.body ?? "", "when").map((when) =>
+    parseIsoTime(decodeXml(when.body))
+  );
+  const coords = xmlElements(trackElement?.body ?? "", "coord").map((coord) =>
+    decodeXml(coord.body).split(/\s+/).map(Number)
+  );
+  // ExtendedData arrays hold a value per position, by field name
+  const arrays = new Map(
+    xmlElements(trackElement?.body ?? "", "SimpleArrayData").map((data) => [
+      xmlAttributeText(data.attributes, "name"),
+      xmlElements(data.body, "value").map((value) => decodeXml(value.body)),
+    ])
+  );
+  const track = coords.flatMap(([lon, lat, alt], i) => {
+    const time = times[i];
+    return time !== null && time !== undefined && isCoordinate(lat, lon)
+      ? [
+          {
+            ...sample(time, lat, lon, Number.isFinite(alt) ? alt : null),
+            ...extraFields((field) => arrays.get(field)?.[i] ?? ""),
+          },
+        ]
+      : [];
+  });
+
+  // The document's own name comes before its folders and placemarks
+  const document = xmlElements(xml, "Document")[0];
+  return {
+    name: xmlText(document?.body ?? "", "name"),
+    track,
+    route,
+  };
+};
+
+type GeoJsonProperties = Record<string, unknown> | null;
+
+const listProperty = (properties: GeoJsonProperties, name: string) => {
+  const coordinateProperties = properties?.coordinateProperties as
+    Record<string, unknown> | undefined;
+  const list = coordinateProperties?.[name];
+  return Array.isArray(list) ? (list as unknown[]) : null;
+};
+
+const numberAt = (list: unknown[] | null, i: number) => {
+  const value = list?.[i];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+const isPosition = (value: unknown): value is GeoJSON.Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  value.every((n) => typeof n === "number" && Number.isFinite(n));
+
+const isLine = (value: unknown): value is GeoJSON.Position[] =>
+  Array.isArray(value) && value.every(isPosition);
+
+// The coordinates of a line, or null for other geometries and for
+// coordinates that aren't lists of numbers
+const lineCoordinates = (geometry: GeoJSON.Geometry) => {
+  const coordinates: unknown =
+    "coordinates" in geometry ? geometry.coordinates : null;
+  if (geometry.type === "LineString") {
+    return isLine(coordinates) ? coordinates : null;
+  }
+  if (geometry.type === "MultiLineString") {
+    return Array.isArray(coordinates) && coordinates.every(isLine)
+      ? coordinates.flat()
+      : null;
+  }
+  return null;
+};
+
+// Features with missing or malformed geometry are skipped like other
+// shapes a track file has no use for
+const parseGeoJson = (raw: GeoJSON.GeoJSON): TrackDocument => {
+  const features: unknown[] =
+    raw.type === "FeatureCollection"
+      ? Array.isArray(raw.features)
+        ? raw.features
+        : []
+      : raw.type === "Feature"
+        ? [raw]
+        : [{ type: "Feature", properties: null, geometry: raw }];
+
+  const points: Waypoint[] = [];
+  const lines: GeoJSON.Position[][] = [];
+  let track: TrackSample[] = [];
+  let name = "";
+
+  for (const feature of features) {
+    if (typeof feature !== "object" || feature === null) continue;
+    const { geometry, properties } = feature as GeoJSON.Feature;
+    if (typeof geometry !== "object" || geometry === null) continue;
+
+    if (geometry.type === "Point") {
+      if (!isPosition(geometry.coordinates)) continue;
+      const [lon, lat] = geometry.coordinates;
+      if (isCoordinate(lat, lon)) {
+        points.push(
+          waypoint(
+            String(properties?.name ?? ""),
+            String(properties?.region ?? ""),
+            lat,
+            lon,
+            points.length
+          )
+        );
+      }
+      continue;
+    }
+
+    const coordinates = lineCoordinates(geometry);
+    if (!coordinates) continue;
+
+    // Lines with a time per position are tracks; "coordTimes" is the older
+    // name for the times list
+    const times =
+      listProperty(properties, "times") ??
+      (Array.isArray(properties?.coordTimes)
+        ? (properties.coordTimes as unknown[])
+        : null);
+    if (track.length === 0 && times && times.length === coordinates.length) {
+      const velocity = listProperty(properties, "velocity");
+      const heading = listProperty(properties, "heading");
+      const onGround = listProperty(properties, "onGround");
+      const squawk = listProperty(properties, "squawk");
+      name = String(properties?.name ?? name);
+      track = coordinates.flatMap(([lon, lat, alt], i) => {
+        const time = parseIsoTime(times[i]);
+        if (time === null || !isCoordinate(lat, lon)) return [];
+        const code = squawk?.[i];
+        return [
+          {
+            ...sample(time, lat, lon, Number.isFinite(alt) ? alt : null),
+            velocity: numberAt(velocity, i),
+            heading: numberAt(heading, i),
+            onGround: onGround?.[i] === true,
+            squawk: typeof code === "string" ? code : null,
+          },
+        ];
+      });
+    } else {
+      lines.push(coordinates);
+    }
+  }
+
+  const route =
+    points.length >= 2 || lines.length === 0
+      ? points
+      : lines[0]
+          .filter(([lon, lat]) => isCoordinate(lat, lon))
+          .map(([lon, lat], i) => waypoint("", "", lat, lon, i));
+
+  return { name, track, route };
+};
+
+const isGeoJson = (raw: unknown): raw is GeoJSON.GeoJSON =>
+  typeof raw === "object" &&
+  raw !== null &&
+  typeof (raw as { type?: unknown }).type === "string";
+
+// Files from other apps often only carry positions and times, so missing
+// speeds and headings are worked out from neighbouring positions
+const fillMotion = (samples: TrackSample[]): TrackSample[] =>
+  samples.map((s, i) => {
+    if (s.velocity !== null && s.heading !== null) return s;
+    const [a, b] = i > 0 ? [samples[i - 1], s] : [s, samples[i + 1]];
+    const dt = b ? b.time - a.time : 0;
+    if (dt <= 0) return s;
+    return {
+      ...s,
+      velocity: s.velocity ?? (distanceKm(a, b) * 1000) / dt,
+      heading: s.heading ?? bearing(a, b),
+    };
+  });
+
+// Sorted by time, one position per second
+const cleanTrack = (samples: TrackSample[]) =>
+  fillMotion(
+    [...samples]
+      .sort((a, b) => a.time - b.time)
+      .filter((s, i, all) => i === 0 || s.time > all[i - 1].time)
+  );
+
+// Reads a GPX, KML or GeoJSON file, or a track saved from /api/flight/track.
+// Throws a TrackFileError when the file can't be read or holds neither a
+// timed track nor a route.
+export const parseTrackDocument = (text: string): TrackDocument => {
+  const trimmed = text.trimStart();
+  let document: TrackDocument;
+
+  if (trimmed.startsWith("<")) {
+    const xml = withoutComments(trimmed);
+    if (/<(?:[\w-]+:)?gpx[\s>]/.test(xml)) document = parseGpx(xml);
+    else if (/<(?:[\w-]+:)?kml[\s>]/.test(xml)) document = parseKml(xml);
+    else {
+      throw new TrackFileError(
+        "unsupported",
+        "Only GPX and KML files can be read"
+      );
+    }
+  } else {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new TrackFileError("invalidJson", "Track file is not valid JSON");
+    }
+    if (isGeoJson(raw)) {
+      document = parseGeoJson(raw);
+    } else {
+      try {
+        document = { name: "", track: parseTrackFile(text), route: [] };
+      } catch (err) {
+        throw new TrackFileError(
+          "noSamples",
+          err instanceof Error ? err.message : String(err)
+        );
+      }
+    }
+  }
+
+  const track = cleanTrack(document.track);
+  if (track.length < 2 && document.route.length < 2) {
+    throw new TrackFileError(
+      "tooShort",
+      "File needs a track of at least two timed positions or a route of at least two points"
+    );
+  }
+  return {
+    ...document,
+    track: track.length < 2 ? [] : track,
+    route: document.route.length < 2 ? [] : document.route,
+  };
+};
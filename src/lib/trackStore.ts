@@ -0,0 +1,86 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FlightState, TrackSample } from "./flightTypes";
+import { appendSample, toTrackSample } from "./track";
+
+// Recorded positions per tracked flight. Kept in memory and mirrored to one
+// JSON file per flight so the track survives server restarts.
+const TRACK_STORE_DIR = path.resolve(
+  process.cwd(),
+  process.env.TRACK_STORE_DIR || ".data/tracks"
+);
+
+// A gap this long means the previous track belongs to an earlier journey
+const NEW_JOURNEY_GAP_S = 12 * 60 * 60;
+const MAX_SAMPLES = 5000;
+
+const tracks = new Map<string, TrackSample[]>();
+const loading = new Map<string, Promise<TrackSample[]>>();
+const writes = new Map<string, Promise<void>>();
+
+const fileFor = (flightId: string) =>
+  path.join(TRACK_STORE_DIR, `${flightId.replace(/[^\w-]/g, "_")}.json`);
+
+const load = async (flightId: string): Promise<TrackSample[]> => {
+  try {
+    const raw = JSON.parse(await readFile(fileFor(flightId), "utf8"));
+    return Array.isArray(raw) ? raw : [];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Could not read track for ${flightId}:`, err);
+    }
+    return [];
+  }
+};
+
+const persist = async (flightId: string, samples: TrackSample[]) => {
+  // Write to a temp file first so a crash never leaves a truncated track
+  const file = fileFor(flightId);
+  await mkdir(TRACK_STORE_DIR, { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(samples));
+  await rename(`${file}.tmp`, file);
+};
+
+export const getTrack = async (flightId: string): Promise<TrackSample[]> => {
+  const cached = tracks.get(flightId);
+  if (cached) return cached;
+
+  // Concurrent first reads share one file load
+  let pending = loading.get(flightId);
+  if (!pending) {
+    pending = load(flightId).then((samples) => {
+      tracks.set(flightId, samples);
+      loading.delete(flightId);
+      return samples;
+    });
+    loading.set(flightId, pending);
+  }
+  return pending;
+};
+
+// Adds the state to the flight's track unless it's already recorded.
+// Returns true when a new sample was added.
+export const recordPosition = async (
+  flightId: string,
+  state: FlightState
+): Promise<boolean> => {
+  const sample = toTrackSample(state);
+  const previous = await getTrack(flightId);
+  const last = previous[previous.length - 1];
+
+  let samples = appendSample(previous, sample);
+  if (samples === previous) return false;
+
+  if (last && sample.time - last.time > NEW_JOURNEY_GAP_S) samples = [sample];
+  samples = samples.slice(-MAX_SAMPLES);
+  tracks.set(flightId, samples);
+
+  // Writes for one flight run one after another
+  const write = (writes.get(flightId) ?? Promise.resolve())
+    .then(() => persist(flightId, samples))
+    .catch((err) =>
+      console.error(`Could not save track for ${flightId}:`, err)
+    );
+  writes.set(flightId, write);
+  return true;
+};
@@ -0,0 +1,265 @@
+// Definition of the flights the tracker follows. Loaded from JSON (see
+// lib/config.ts) so the app can be reused for other homecomings.
+
+export interface RunwayEnd {
+  designator: string; // e.g. "14"
+  lat: number; // threshold
+  lon: number;
+}
+
+export interface Runway {
+  // Both thresholds; either end can be landed on
+  ends: [RunwayEnd, RunwayEnd];
+}
+
+export interface Airport {
+  name: string; // display name, e.g. "London Heathrow"
+  code?: string; // IATA/ICAO code
+  timeZone?: string; // IANA zone for local times, e.g. "Asia/Dhaka"
+  lat: number;
+  lon: number;
+  runways?: Runway[]; // drawn in the arrival view (see lib/arrival.ts)
+}
+
+export interface Waypoint {
+  name: string;
+  lat: number;
+  lon: number;
+  region: string;
+}
+
+export interface TrackedFlight {
+  flightNumber: string; // public flight number, e.g. "BG202"
+  operator: string; // airline display name
+  callsigns: string[]; // ATC callsigns the aircraft may broadcast
+  icao24?: string; // transponder hex address, if known in advance
+  fallbackCallsignPrefix?: string; // accept any airborne flight with this prefix
+  passengerName: string;
+  origin: Airport;
+  destination: Airport;
+  waypoints: Waypoint[];
+  scheduledArrival?: string; // ISO 8601 timestamp with offset
+  arrivalRadiusKm?: number; // distance from the destination that starts the arrival view
+}
+
+export class TrackedFlightConfigError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(
+      `Invalid tracked flight config (${source}):\n- ${issues.join("\n- ")}`
+    );
+    this.name = "TrackedFlightConfigError";
+    this.issues = issues;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const checkCoordinates = (value: Raw, path: string, issues: string[]) => {
+  const { lat, lon } = value;
+  if (typeof lat !== "number" || lat < -90 || lat > 90) {
+    issues.push(`${path}.lat must be a number between -90 and 90`);
+  }
+  if (typeof lon !== "number" || lon < -180 || lon > 180) {
+    issues.push(`${path}.lon must be a number between -180 and 180`);
+  }
+};
+
+const isTimeZone = (value: unknown) => {
+  if (!isNonEmptyString(value)) return false;
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const checkAirport = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(value.name)) issues.push(`${path}.name is required`);
+  if (value.code !== undefined && !isNonEmptyString(value.code)) {
+    issues.push(`${path}.code must be a non-empty string`);
+  }
+  if (value.timeZone !== undefined && !isTimeZone(value.timeZone)) {
+    issues.push(`${path}.timeZone must be an IANA time zone name`);
+  }
+  checkCoordinates(value, path, issues);
+
+  if (value.runways === undefined) return;
+  if (!Array.isArray(value.runways)) {
+    issues.push(`${path}.runways must be an array`);
+    return;
+  }
+  value.runways.forEach((runway: unknown, i: number) => {
+    const runwayPath = `${path}.runways[${i}]`;
+    if (
+      !isObject(runway) ||
+      !Array.isArray(runway.ends) ||
+      runway.ends.length !== 2
+    ) {
+      issues.push(`${runwayPath}.ends must hold both runway ends`);
+      return;
+    }
+    runway.ends.forEach((end: unknown, j: number) => {
+      const endPath = `${runwayPath}.ends[${j}]`;
+      if (!isObject(end)) {
+        issues.push(`${endPath} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(end.designator)) {
+        issues.push(`${endPath}.designator is required`);
+      }
+      checkCoordinates(end, endPath, issues);
+    });
+  });
+};
+
+const checkTrackedFlight = (
+  value: unknown,
+  prefix: string,
+  issues: string[]
+) => {
+  if (!isObject(value)) {
+    issues.push(`${prefix || "config"} must be an object`);
+    return;
+  }
+
+  for (const key of ["flightNumber", "operator", "passengerName"]) {
+    if (!isNonEmptyString(value[key])) {
+      issues.push(`${prefix}${key} is required`);
+    }
+  }
+
+  if (
+    !Array.isArray(value.callsigns) ||
+    value.callsigns.length === 0 ||
+    !value.callsigns.every(isNonEmptyString)
+  ) {
+    issues.push(`${prefix}callsigns must be a non-empty array of strings`);
+  }
+
+  if (
+    value.icao24 !== undefined &&
+    !(typeof value.icao24 === "string" && /^[0-9a-f]{6}$/i.test(value.icao24))
+  ) {
+    issues.push(`${prefix}icao24 must be a 6 digit hex address`);
+  }
+
+  if (
+    value.fallbackCallsignPrefix !== undefined &&
+    !isNonEmptyString(value.fallbackCallsignPrefix)
+  ) {
+    issues.push(`${prefix}fallbackCallsignPrefix must be a non-empty string`);
+  }
+
+  if (
+    value.scheduledArrival !== undefined &&
+    !(
+      typeof value.scheduledArrival === "string" &&
+      Number.isFinite(Date.parse(value.scheduledArrival))
+    )
+  ) {
+    issues.push(`${prefix}scheduledArrival must be an ISO 8601 timestamp`);
+  }
+
+  if (
+    value.arrivalRadiusKm !== undefined &&
+    !(typeof value.arrivalRadiusKm === "number" && value.arrivalRadiusKm > 0)
+  ) {
+    issues.push(`${prefix}arrivalRadiusKm must be a positive number`);
+  }
+
+  checkAirport(value.origin, `${prefix}origin`, issues);
+  checkAirport(value.destination, `${prefix}destination`, issues);
+
+  if (!Array.isArray(value.waypoints) || value.waypoints.length < 2) {
+    issues.push(`${prefix}waypoints must contain at least two points`);
+  } else {
+    value.waypoints.forEach((waypoint: unknown, i: number) => {
+      const path = `${prefix}waypoints[${i}]`;
+      if (!isObject(waypoint)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(waypoint.name)) {
+        issues.push(`${path}.name is required`);
+      }
+      if (!isNonEmptyString(waypoint.region)) {
+        issues.push(`${path}.region is required`);
+      }
+      checkCoordinates(waypoint, path, issues);
+    });
+  }
+};
+
+const normalize = (flight: TrackedFlight): TrackedFlight => ({
+  ...flight,
+  // Callsigns are broadcast upper-case and space padded
+  flightNumber: flight.flightNumber.trim().toUpperCase(),
+  callsigns: flight.callsigns.map((c) => c.trim().toUpperCase()),
+  icao24: flight.icao24?.toLowerCase(),
+  fallbackCallsignPrefix: flight.fallbackCallsignPrefix?.trim().toUpperCase(),
+});
+
+// Accepts a single flight or an array of flights
+export const validateTrackedFlights = (
+  value: unknown,
+  source = "config"
+): TrackedFlight[] => {
+  const issues: string[] = [];
+  const list = Array.isArray(value) ? value : [value];
+
+  if (list.length === 0) {
+    throw new TrackedFlightConfigError(source, [
+      "at least one flight is required",
+    ]);
+  }
+
+  list.forEach((flight, i) =>
+    checkTrackedFlight(flight, Array.isArray(value) ? `[${i}].` : "", issues)
+  );
+  if (issues.length > 0) throw new TrackedFlightConfigError(source, issues);
+
+  const flights = (list as TrackedFlight[]).map(normalize);
+
+  const seen = new Set<string>();
+  for (const flight of flights) {
+    if (seen.has(flight.flightNumber)) {
+      issues.push(`flightNumber ${flight.flightNumber} is used more than once`);
+    }
+    seen.add(flight.flightNumber);
+  }
+  if (issues.length > 0) throw new TrackedFlightConfigError(source, issues);
+
+  return flights;
+};
+
+// Flights are addressed by flight number in URLs (/track/BG202)
+export const getFlightId = (flight: TrackedFlight) => flight.flightNumber;
+
+// Country the flight lands in, from its last waypoint
+export const getDestinationCountry = (flight: TrackedFlight) =>
+  flight.waypoints[flight.waypoints.length - 1].region;
+
+// Resolve a URL segment to a flight by flight number or any of its callsigns
+export const findTrackedFlight = (
+  flights: TrackedFlight[],
+  key: string
+): TrackedFlight | undefined => {
+  const wanted = key.trim().toUpperCase();
+  return (
+    flights.find((f) => f.flightNumber === wanted) ??
+    flights.find((f) => f.callsigns.includes(wanted))
+  );
+};
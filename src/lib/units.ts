@@ -0,0 +1,17 @@
+// Unit conversions. Everything inside the app uses OpenSky's SI units
+// (metres, metres per second); receivers and the UI use aviation units.
+
+const FEET_PER_METRE = 3.28084;
+const MPH_PER_MS = 2.23694;
+const MS_PER_KNOT = 0.514444;
+const FPM_PER_MS = FEET_PER_METRE * 60;
+
+export const metresToFeet = (metres: number) => metres * FEET_PER_METRE;
+export const feetToMetres = (feet: number) => feet / FEET_PER_METRE;
+
+export const msToMph = (ms: number) => ms * MPH_PER_MS;
+export const knotsToMs = (knots: number) => knots * MS_PER_KNOT;
+
+// Vertical rate, metres per second <-> feet per minute
+export const msToFpm = (ms: number) => ms * FPM_PER_MS;
+export const fpmToMs = (fpm: number) => fpm / FPM_PER_MS;
@@ -0,0 +1,69 @@
+import { createHmac, randomUUID } from "node:crypto";
+
+// Delivers flight events to the URLs in WEBHOOK_URLS as JSON POSTs. With
+// WEBHOOK_SECRET set, each body is signed with HMAC-SHA256 in the
+// X-Webhook-Signature header ("sha256=<hex>") so receivers can check it
+// came from us. Failed deliveries are retried with exponential backoff;
+// delivery is at-least-once, so receivers should dedupe on the event id.
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_MS = 2000;
+const TIMEOUT_MS = 10000;
+
+export interface WebhookEvent {
+  id: string; // stable per event, e.g. "BG202:landing-1766580000"
+  type: string; // e.g. "milestone"
+  flight: string; // flight id
+  data: unknown;
+}
+
+export const getWebhookUrls = () =>
+  (process.env.WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+export const signPayload = (body: string, secret: string) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 4xx other than 429 means the receiver rejected the event; don't retry
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+const deliver = async (url: string, event: WebhookEvent) => {
+  const body = JSON.stringify({ ...event, sentAt: new Date().toISOString() });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Webhook-Event": event.type,
+    "X-Webhook-Delivery": randomUUID(),
+  };
+  const secret = process.env.WEBHOOK_SECRET;
+  if (secret) headers["X-Webhook-Signature"] = signPayload(body, secret);
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      if (res.ok) return;
+      if (!isRetryable(res.status)) {
+        console.error(`Webhook ${url} rejected ${event.id}: ${res.status}`);
+        return;
+      }
+      console.error(`Webhook ${url} failed for ${event.id}: ${res.status}`);
+    } catch (err) {
+      console.error(`Webhook ${url} failed for ${event.id}:`, err);
+    }
+    if (attempt < MAX_ATTEMPTS) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+  }
+  console.error(`Giving up on webhook ${url} for ${event.id}`);
+};
+
+// Sends the event to every configured URL. Resolves once all deliveries
+// have succeeded or given up; never rejects.
+export const dispatchWebhook = async (event: WebhookEvent) => {
+  await Promise.all(getWebhookUrls().map((url) => deliver(url, event)));
+};
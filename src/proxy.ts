@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isLocale, LOCALE_COOKIE, matchLocale } from "@/lib/i18n/config";
+
+// Sends page URLs without a locale prefix to the same page in the visitor's
+// language: the one picked in the switcher, else the browser's preference.
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isLocale(pathname.split("/")[1] ?? "")) return NextResponse.next();
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale =
+    saved && isLocale(saved)
+      ? saved
+      : matchLocale(request.headers.get("accept-language"));
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${locale}${pathname === "/" ? "" : pathname}`;
+  url.search = search;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Pages only: not the API, Next.js internals or static files
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+};